@@ -1,19 +1,45 @@
 import { ModeToggle } from "./components/mode-toggle";
 import { ThemeProvider } from "./components/theme-provider";
 import { Button } from "./components/ui/button";
-import { useState } from "react";
-import { ClipboardCheck, ClipboardList } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import {
+  ClipboardCheck,
+  ClipboardList,
+  FileCheck,
+  FileText,
+} from "lucide-react";
 import { useToast } from "./components/ui/use-toast";
 import ISIForm from "./components/isi-form";
+import ISIPreview from "./components/isi-preview";
+import DownloadMenu from "./components/download-menu";
 import { TooltipProvider } from "./components/ui/tooltip";
+import type { LintIssue } from "./lib/email-lint";
+import type { ISIValues } from "./lib/isi-schema";
+import { clearPermalink, hasPermalink, readPermalink } from "./lib/permalink";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./components/ui/tabs";
 
 function App() {
   const [generatedISI, setGeneratedISI] = useState("");
+  const [generatedText, setGeneratedText] = useState("");
+  const [previewISI, setPreviewISI] = useState("");
+  const [lintIssues, setLintIssues] = useState<LintIssue[]>();
+  const [generatedValues, setGeneratedValues] = useState<ISIValues>();
   const [isClipboardWritten, setIsClipboardWritten] = useState(false);
+  const [isTextClipboardWritten, setIsTextClipboardWritten] = useState(false);
+  const [permalink] = useState(readPermalink);
 
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (!permalink && hasPermalink()) {
+      toast({
+        description:
+          "The link you opened couldn't be read, so the form starts empty.",
+      });
+    }
+    if (permalink || hasPermalink()) clearPermalink();
+  }, [permalink, toast]);
+
   function copyTextToClipboard() {
     navigator.clipboard
       .writeText(generatedISI)
@@ -22,6 +48,7 @@ function App() {
           description: "Your ISI was copied to your clipboard.",
         });
         setIsClipboardWritten(true);
+        setIsTextClipboardWritten(false);
       })
       .catch(() => {
         toast({
@@ -30,6 +57,32 @@ function App() {
       });
   }
 
+  function copyPlainTextToClipboard() {
+    navigator.clipboard
+      .writeText(generatedText)
+      .then(() => {
+        toast({
+          description: "Your plain-text ISI was copied to your clipboard.",
+        });
+        setIsTextClipboardWritten(true);
+        setIsClipboardWritten(false);
+      })
+      .catch(() => {
+        toast({
+          description: "It wasn't possible to copy your plain-text ISI.",
+        });
+      });
+  }
+
+  // A new ISI resets both copy buttons
+  const handleClipboardWritten = useCallback(
+    (value: React.SetStateAction<boolean>) => {
+      setIsClipboardWritten(value);
+      setIsTextClipboardWritten(false);
+    },
+    [],
+  );
+
   return (
     <ThemeProvider defaultTheme="dark" storageKey="vite-ui-theme">
       <TooltipProvider>
@@ -50,40 +103,81 @@ function App() {
 
           <div className="flex w-full flex-col justify-center gap-6 md:flex-row">
             <div>
-              <Tabs defaultValue="email" className="w-full">
+              <Tabs
+                defaultValue={permalink?.mode ?? "email"}
+                className="w-full"
+              >
                 <TabsList className="grid w-full grid-cols-2">
                   <TabsTrigger value="email">Email</TabsTrigger>
                   <TabsTrigger value="banner">Banner</TabsTrigger>
                 </TabsList>
                 <TabsContent value="email" className="mt-6">
                   <ISIForm
+                    initialValues={
+                      permalink?.mode === "email" ? permalink.values : undefined
+                    }
                     setGeneratedISI={setGeneratedISI}
-                    setIsClipboardWritten={setIsClipboardWritten}
+                    setGeneratedText={setGeneratedText}
+                    setPreviewISI={setPreviewISI}
+                    setLintIssues={setLintIssues}
+                    setGeneratedValues={setGeneratedValues}
+                    setIsClipboardWritten={handleClipboardWritten}
                   />
                 </TabsContent>
                 <TabsContent value="banner" className="mt-6">
                   <ISIForm
+                    mode="banner"
+                    initialValues={
+                      permalink?.mode === "banner"
+                        ? permalink.values
+                        : undefined
+                    }
                     setGeneratedISI={setGeneratedISI}
-                    setIsClipboardWritten={setIsClipboardWritten}
+                    setGeneratedText={setGeneratedText}
+                    setPreviewISI={setPreviewISI}
+                    setLintIssues={setLintIssues}
+                    setGeneratedValues={setGeneratedValues}
+                    setIsClipboardWritten={handleClipboardWritten}
                   />
                 </TabsContent>
               </Tabs>
             </div>
 
             {generatedISI && (
-              <div className="relative flex max-h-[635px] md:w-1/2">
-                <Button
-                  size="icon"
-                  variant="outline"
-                  className="absolute left-2 top-2"
-                  onClick={copyTextToClipboard}
-                  title="Copy to clipboard"
+              <div className="flex max-h-[635px] md:w-1/2">
+                <ISIPreview
+                  generatedISI={generatedISI}
+                  previewISI={previewISI}
+                  lintIssues={lintIssues}
+                  generatedText={generatedText}
                 >
-                  {isClipboardWritten ? <ClipboardCheck /> : <ClipboardList />}
-                </Button>
-                <div className="overflow-y-auto rounded-md border-2 p-4 pt-8 scrollbar scrollbar-track-transparent scrollbar-thumb-zinc-800 md:pt-14">
-                  <pre className="text-xs">{generatedISI}</pre>
-                </div>
+                  <Button
+                    size="icon"
+                    variant="outline"
+                    onClick={copyTextToClipboard}
+                    title="Copy to clipboard"
+                  >
+                    {isClipboardWritten ? <ClipboardCheck /> : <ClipboardList />}
+                  </Button>
+                  {generatedText && (
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      onClick={copyPlainTextToClipboard}
+                      title="Copy plain text to clipboard"
+                    >
+                      {isTextClipboardWritten ? <FileCheck /> : <FileText />}
+                    </Button>
+                  )}
+                  {generatedValues && (
+                    <DownloadMenu
+                      generatedISI={generatedISI}
+                      previewISI={previewISI}
+                      generatedText={generatedText}
+                      values={generatedValues}
+                    />
+                  )}
+                </ISIPreview>
               </div>
             )}
           </div>
@@ -0,0 +1,45 @@
+import { cn } from "@/lib/utils";
+import type { ContrastCheck } from "@/lib/color-contrast";
+
+type ContrastBadgeProps = {
+  check?: ContrastCheck;
+  className?: string;
+};
+
+const backgroundLabels: Record<ContrastCheck["background"], string> = {
+  tableColor: "table color",
+  darkTableColor: "dark table color",
+  boxBackgroundColor: "warning box background",
+};
+
+function LevelBadge({ level, isPass }: { level: string; isPass: boolean }) {
+  return (
+    <span
+      className={cn(
+        "rounded px-1 text-[10px] font-semibold leading-4",
+        isPass
+          ? "bg-green-600/20 text-green-700 dark:text-green-400"
+          : "bg-red-600/20 text-red-700 line-through dark:text-red-400",
+      )}
+    >
+      {level}
+    </span>
+  );
+}
+
+export default function ContrastBadge({
+  check,
+  className,
+}: ContrastBadgeProps) {
+  if (!check) return null;
+
+  return (
+    <span
+      className={cn("inline-flex gap-1 align-middle", className)}
+      title={`Contrast ratio of ${check.ratio.toFixed(2)}:1 against the ${backgroundLabels[check.background]}`}
+    >
+      <LevelBadge level="AA" isPass={check.isAA} />
+      <LevelBadge level="AAA" isPass={check.isAAA} />
+    </span>
+  );
+}
@@ -0,0 +1,74 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { diffLines, toSideBySide, type DiffLine } from "@/lib/line-diff";
+
+type DiffViewProps = {
+  oldText: string;
+  newText: string;
+  isSideBySide: boolean;
+};
+
+const lineStyles = {
+  equal: "",
+  added: "bg-green-600/20",
+  removed: "bg-red-600/20",
+};
+
+const lineMarkers = { equal: " ", added: "+", removed: "-" };
+
+function LineNumber({ line }: { line?: number }) {
+  return (
+    <span className="w-8 shrink-0 select-none pr-2 text-right text-muted-foreground">
+      {line}
+    </span>
+  );
+}
+
+function DiffCell({ line }: { line?: DiffLine }) {
+  return (
+    <div className={cn("flex min-w-0 flex-1", line && lineStyles[line.type])}>
+      <LineNumber line={line?.oldLine ?? line?.newLine} />
+      <span className="whitespace-pre">{line?.text}</span>
+    </div>
+  );
+}
+
+export default function DiffView({
+  oldText,
+  newText,
+  isSideBySide,
+}: DiffViewProps) {
+  const lines = useMemo(() => diffLines(oldText, newText), [oldText, newText]);
+  const hasChanges = lines.some(({ type }) => type !== "equal");
+
+  if (!hasChanges) {
+    return (
+      <p className="px-3 py-2 text-muted-foreground">
+        Both versions are identical.
+      </p>
+    );
+  }
+
+  return (
+    <div className="max-h-80 overflow-auto font-mono scrollbar scrollbar-track-transparent scrollbar-thumb-zinc-800">
+      {isSideBySide
+        ? toSideBySide(lines).map(({ left, right }, index) => (
+            <div key={index} className="flex">
+              {/* Equal lines show the same line on both sides */}
+              <DiffCell line={left && { ...left, newLine: undefined }} />
+              <DiffCell line={right && { ...right, oldLine: undefined }} />
+            </div>
+          ))
+        : lines.map((line, index) => (
+            <div key={index} className={cn("flex", lineStyles[line.type])}>
+              <LineNumber line={line.oldLine} />
+              <LineNumber line={line.newLine} />
+              <span className="w-4 shrink-0 select-none">
+                {lineMarkers[line.type]}
+              </span>
+              <span className="whitespace-pre">{line.text}</span>
+            </div>
+          ))}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { Download } from "lucide-react";
+import { downloadFile } from "@/lib/download";
+import {
+  createExportBundle,
+  getCodeExtension,
+  getExportName,
+  toStandaloneDocument,
+} from "@/lib/export-files";
+import type { ISIValues } from "@/lib/isi-schema";
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+
+type DownloadMenuProps = {
+  generatedISI: string;
+  // HTML even when the generated code is MJML
+  previewISI: string;
+  generatedText: string;
+  values: ISIValues;
+};
+
+export default function DownloadMenu({
+  generatedISI,
+  previewISI,
+  generatedText,
+  values,
+}: DownloadMenuProps) {
+  const name = getExportName(values);
+  const extension = getCodeExtension(values);
+  const isMJML = extension === "mjml";
+
+  function downloadSnippet() {
+    downloadFile(
+      `${name}.${extension}`,
+      generatedISI,
+      isMJML ? "text/plain" : "text/html",
+    );
+  }
+
+  const html = isMJML ? previewISI : generatedISI;
+
+  function downloadDocument() {
+    downloadFile(
+      `${name}.standalone.html`,
+      toStandaloneDocument(html, values),
+      "text/html",
+    );
+  }
+
+  function downloadBundle() {
+    downloadFile(
+      `${name}.zip`,
+      createExportBundle({
+        code: generatedISI,
+        html,
+        text: generatedText,
+        values,
+      }),
+      "application/zip",
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="icon" variant="outline" title="Download">
+          <Download />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={downloadSnippet}>
+          {isMJML ? "MJML section" : "HTML snippet"} (.{extension})
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={downloadDocument}>
+          Standalone HTML document
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={downloadBundle}>
+          Everything as a .zip
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { FileCode, TriangleAlert } from "lucide-react";
+import { importISIHTML, type HTMLImportResult } from "@/lib/isi-html-import";
+import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Textarea } from "./ui/textarea";
+import { useToast } from "./ui/use-toast";
+
+type HTMLImportProps = {
+  onImport: (result: HTMLImportResult) => void;
+};
+
+export default function HTMLImport({ onImport }: HTMLImportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [html, setHTML] = useState("");
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  const { toast } = useToast();
+
+  function importHTML(html: string, source: string) {
+    const result = importISIHTML(html);
+
+    onImport(result);
+    setWarnings(result.warnings);
+    setHTML("");
+    setIsOpen(false);
+    toast({ description: `${source} was imported into the form.` });
+  }
+
+  function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    // Same as presets, the portaled form still bubbles to the ISI form
+    event.stopPropagation();
+    if (html.trim()) importHTML(html, "The pasted HTML");
+  }
+
+  function handleFile(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    file
+      .text()
+      .then((html) => importHTML(html, file.name))
+      .catch(() => {
+        toast({ description: `It wasn't possible to read ${file.name}.` });
+      });
+  }
+
+  return (
+    <div className="col-span-2 space-y-2">
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" className="w-full">
+            <FileCode className="mr-2 h-4 w-4" />
+            Import HTML
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-96">
+          <form className="space-y-2" onSubmit={handleSubmit}>
+            <Textarea
+              className="min-h-40 font-mono text-xs"
+              placeholder="Paste an ISI table here"
+              value={html}
+              onChange={(event) => setHTML(event.target.value)}
+              autoFocus
+            />
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="ghost"
+                className="flex-1 cursor-pointer"
+                asChild
+              >
+                <label>
+                  Choose a file
+                  <input
+                    type="file"
+                    accept=".html,.htm,text/html"
+                    className="hidden"
+                    onChange={handleFile}
+                  />
+                </label>
+              </Button>
+              <Button type="submit" variant="secondary" className="flex-1">
+                Import
+              </Button>
+            </div>
+          </form>
+        </PopoverContent>
+      </Popover>
+
+      {warnings.length > 0 && (
+        <div className="rounded-md border border-yellow-600/50 p-3 text-xs">
+          <p className="mb-1 flex items-center gap-1 font-medium">
+            <TriangleAlert className="h-4 w-4 text-yellow-600" />
+            Some of the HTML couldn't be interpreted:
+          </p>
+          <ul className="list-inside list-disc">
+            {warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useRef, useState } from "react";
+import { FileUp, TriangleAlert } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { importISIFile, importableExtensions } from "@/lib/file-import";
+import { useToast } from "./ui/use-toast";
+
+type ISIFileDropProps = {
+  onImport: (markup: string) => void;
+};
+
+export default function ISIFileDrop({ onImport }: ISIFileDropProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const { toast } = useToast();
+
+  function importFile(file: File) {
+    importISIFile(file)
+      .then(({ markup, warnings }) => {
+        onImport(markup);
+        setWarnings(warnings);
+        toast({
+          description: `${file.name} was imported into your ISI text.`,
+        });
+      })
+      .catch((error: Error) => {
+        setWarnings([]);
+        toast({
+          description: `It wasn't possible to import ${file.name}. ${error.message}`,
+        });
+      });
+  }
+
+  function handleDrop(event: React.DragEvent<HTMLDivElement>) {
+    event.preventDefault();
+    setIsDragging(false);
+
+    const file = event.dataTransfer.files[0];
+    if (file) importFile(file);
+  }
+
+  function handleChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    if (file) importFile(file);
+    // Allow importing the same file again after editing it
+    event.target.value = "";
+  }
+
+  return (
+    <div className="space-y-2">
+      <div
+        role="button"
+        tabIndex={0}
+        className={cn(
+          "flex cursor-pointer items-center justify-center gap-2 rounded-md border-2 border-dashed p-3 text-sm text-muted-foreground transition-colors hover:border-ring",
+          isDragging && "border-ring bg-accent",
+        )}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" || event.key === " ")
+            inputRef.current?.click();
+        }}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <FileUp className="h-4 w-4" />
+        Drop a {importableExtensions.join(", ")} file here or click to browse
+        <input
+          ref={inputRef}
+          type="file"
+          accept={importableExtensions.join(",")}
+          className="hidden"
+          onChange={handleChange}
+        />
+      </div>
+
+      {warnings.length > 0 && (
+        <div className="rounded-md border border-yellow-600/50 p-3 text-xs">
+          <p className="mb-1 flex items-center gap-1 font-medium">
+            <TriangleAlert className="h-4 w-4 text-yellow-600" />
+            This formatting couldn't be converted and was left out:
+          </p>
+          <ul className="list-inside list-disc">
+            {warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import { z } from "zod";
+import { useCallback, useEffect, useState } from "react";
 import { Input } from "./ui/input";
 import { Textarea } from "./ui/textarea";
 import { CodeXml } from "lucide-react";
@@ -19,115 +19,259 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  ISIFormSchema,
+  adSizes,
+  bannerDefaultValues,
+  emailDefaultValues,
+  type ISIMode,
+  type ISIValues,
+} from "@/lib/isi-schema";
+import { generateEmailISI, headingTags } from "@/lib/email-generator";
+import { generateBannerISI } from "@/lib/banner-generator";
+import { generateMJMLISI } from "@/lib/mjml-generator";
+import { generatePlainTextISI, textBullets } from "@/lib/text-generator";
+import { formatOutput } from "@/lib/output-format";
+import { lintEmailHTML, type LintIssue } from "@/lib/email-lint";
+import { getContrastChecks } from "@/lib/color-contrast";
+import ContrastBadge from "./contrast-badge";
+import { convertHTMLToMarkup } from "@/lib/html-to-markup";
+import { getDefaultPreset, toSettings, type ISISettings } from "@/lib/presets";
+import { fontStacks } from "@/lib/font-stacks";
+import ISIFileDrop from "./isi-file-drop";
+import PresetPicker from "./preset-picker";
+import HTMLImport from "./html-import";
+import ShareLink from "./share-link";
+import type { HTMLImportResult } from "@/lib/isi-html-import";
+import TierStyleEditor from "./tier-style-editor";
+import VersionHistory from "./version-history";
+import { addVersion } from "@/lib/version-history";
+import { useToast } from "./ui/use-toast";
 
-const ISIValuesSchema = z.object({
-  padding: z.coerce
-    .number({ message: "Padding needs to be a number" })
-    .optional(),
-  fontSize: z.coerce
-    .number({ message: "Font size needs to be a number" })
-    .optional(),
-  fontColor: z
-    .string()
-    .regex(/^(#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))$|^$/i, {
-      message: "Font color needs to be a valid hex color",
-    })
-    .optional(),
-  tableColor: z
-    .string()
-    .regex(/^(#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))$|^$/i, {
-      message: "Table color needs to be a valid hex color",
-    })
-    .optional(),
-  lineHeight: z.coerce
-    .number({ message: "Line height needs to be a number" })
-    .optional(),
-  gutterWidth: z.coerce
-    .number({ message: "Gutter needs to be a number" })
-    .optional(),
-  ISI: z.string().min(1, { message: "ISI text is required" }),
-  hasBullets: z.boolean().optional(),
-  bulletColor: z
-    .string()
-    .regex(/^(#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))$|^$/i, {
-      message: "Bullet color needs to be a valid hex color",
-    })
-    .optional(),
-});
-
-type ISIValues = z.infer<typeof ISIValuesSchema>;
 type ISIFormProps = {
+  mode?: ISIMode;
+  // Values from a shared link, which win over the default preset
+  initialValues?: ISIValues;
   setGeneratedISI: React.Dispatch<React.SetStateAction<string>>;
+  setGeneratedText: React.Dispatch<React.SetStateAction<string>>;
+  setPreviewISI: React.Dispatch<React.SetStateAction<string>>;
+  setLintIssues: React.Dispatch<React.SetStateAction<LintIssue[] | undefined>>;
+  setGeneratedValues: React.Dispatch<
+    React.SetStateAction<ISIValues | undefined>
+  >;
   setIsClipboardWritten: React.Dispatch<React.SetStateAction<boolean>>;
 };
 
 export default function ISIForm({
+  mode = "email",
+  initialValues,
   setGeneratedISI,
+  setGeneratedText,
+  setPreviewISI,
+  setLintIssues,
+  setGeneratedValues,
   setIsClipboardWritten,
 }: ISIFormProps) {
+  const modeDefaultValues =
+    mode === "banner" ? bannerDefaultValues : emailDefaultValues;
+  // The default brand preset, if any, is only read when the form mounts
+  const [defaultValues] = useState<ISIValues>(
+    () =>
+      initialValues ?? {
+        ...modeDefaultValues,
+        ...getDefaultPreset(mode)?.settings,
+      },
+  );
+
   const form = useForm<ISIValues>({
-    resolver: zodResolver(ISIValuesSchema),
-    defaultValues: {
-      padding: 10,
-      fontSize: 16,
-      fontColor: "#000000",
-      tableColor: "#FFFFFE",
-      lineHeight: 16,
-      gutterWidth: 30,
-      ISI: "",
-      hasBullets: false,
-      bulletColor: "#000000",
-    },
+    resolver: zodResolver(ISIFormSchema),
+    defaultValues,
   });
 
-  function handleISIValues({
-    padding,
-    fontSize,
-    fontColor,
-    tableColor,
-    lineHeight,
-    gutterWidth,
-    ISI,
-    bulletColor,
-  }: ISIValues) {
-    const generateRow = (
-      text: string,
-      isBold: boolean = false,
-      isBullet: boolean = false,
-    ) => {
-      const commonStyle = `font-family: Arial, Helvetica, sans-serif; font-size: ${fontSize}px; line-height: ${lineHeight}px; color: ${fontColor}; padding-bottom: ${padding}px; font-weight: ${isBold ? "bold;" : "normal;"}`;
-
-      if (isBullet) {
-        return (text = `\n\t\t\t\t<tr>\n\t\t\t\t\t<td>\n\t\t\t\t\t\t<table cellpadding="0" cellspacing="0" border="0" width="100%">\n\t\t\t\t\t\t\t<tr>\n\t\t\t\t\t\t\t\t<td width="12" valign="top" align="left" style="font-family: Arial, Helvetica, sans-serif; font-size: ${fontSize}px; line-height: ${lineHeight}px; color: ${bulletColor}; padding-bottom: ${padding}px; font-weight: bold;">&bull;</td>\n\t\t\t\t\t\t\t\t<td valign="top" align="left" style="${commonStyle}">${text}</td>\n\t\t\t\t\t\t\t</tr>\n\t\t\t\t\t\t</table>\n\t\t\t\t\t</td>\n\t\t\t\t</tr>`);
-      }
-
-      return `\n\t\t\t\t<tr>\n\t\t\t\t\t<td align="left" style="${commonStyle}">\n\t\t\t\t\t\t${text}\n\t\t\t\t\t</td>\n\t\t\t\t</tr>`;
-    };
-
-    const generatedISIRows = ISI.split(/\r?\n|\r/)
-      .filter((row) => row.length > 0)
-      .map((text) => {
-        if (text.startsWith("**")) return generateRow(text.substring(2), true);
-        // prettier-ignore
-        if (text.startsWith("-")) return generateRow(text.substring(1), false, true);
-        return generateRow(text);
-      })
-      .join("");
-
-    const gutterWidthValue = gutterWidth ? gutterWidth : "30px";
-    const tableColorValue = tableColor ? tableColor : "#FFFFFE";
-
-    const generatedISI = `<table cellpadding="0" cellspacing="0" border="0" width="600" style="min-width: 600px;" class="wrapper" role="presentation" bgcolor="${tableColorValue}">\n\t<tr>\n\t\t<td width="${gutterWidthValue}" class="gutter">&nbsp;</td>\n\t\t<td>\n\t\t\t<table cellpadding="0" cellspacing="0" border="0" width="100%">${generatedISIRows}\n\t\t\t</table>\n\t\t</td>\n\t\t<td width="${gutterWidthValue}" class="gutter">&nbsp;</td>\n\t</tr>\n</table>`;
-
-    setIsClipboardWritten(false);
-    setGeneratedISI(generatedISI);
+  const [historyKey, setHistoryKey] = useState(0);
+  const { toast } = useToast();
+
+  function applyPreset(settings: ISISettings) {
+    form.reset({
+      ...modeDefaultValues,
+      ...settings,
+      ISI: form.getValues("ISI"),
+      jobCode: form.getValues("jobCode"),
+    });
   }
+
+  const handleISIValues = useCallback(
+    (values: ISIValues) => {
+      const generatedISI =
+        mode === "banner"
+          ? generateBannerISI(values)
+          : generateEmailISI(values);
+      const isMJML = mode === "email" && values.outputFormat === "mjml";
+
+      setIsClipboardWritten(false);
+      const formattedISI = formatOutput(
+        isMJML ? generateMJMLISI(values) : generatedISI,
+        values,
+      );
+
+      setGeneratedISI(formattedISI);
+      setGeneratedValues(values);
+      setLintIssues(
+        mode === "email" && !isMJML ? lintEmailHTML(formattedISI) : undefined,
+      );
+      // MJML can't be rendered without compiling it, so the preview shows
+      // the HTML table it is equivalent to
+      setPreviewISI(generatedISI);
+      // Banners have no text/plain part to go with them
+      setGeneratedText(
+        mode === "email"
+          ? formatOutput(generatePlainTextISI(values), {
+              lineEnding: values.lineEnding,
+            })
+          : "",
+      );
+
+      return formattedISI;
+    },
+    [
+      mode,
+      setGeneratedISI,
+      setGeneratedText,
+      setPreviewISI,
+      setLintIssues,
+      setGeneratedValues,
+      setIsClipboardWritten,
+    ],
+  );
+
+  // Only explicit generations are saved, not every keystroke of the live
+  // preview
+  function handleGenerate(values: ISIValues) {
+    const output = handleISIValues(values);
+
+    addVersion({ mode, label: "", values, output, createdAt: Date.now() })
+      .then(() => setHistoryKey((key) => key + 1))
+      .catch(() => {
+        toast({
+          description: "It wasn't possible to save this version to history.",
+        });
+      });
+  }
+
+  function applyHTMLImport({ markup, settings }: HTMLImportResult) {
+    form.reset({ ...form.getValues(), ...settings, ISI: markup });
+  }
+
+  function restoreVersion(values: ISIValues) {
+    form.reset({ ...modeDefaultValues, ...values });
+  }
+
+  // Keep the preview in sync while the user edits, as long as the current
+  // values would pass validation on submit.
+  useEffect(() => {
+    const subscription = form.watch((values) => {
+      const result = ISIFormSchema.safeParse(values);
+      if (result.success) handleISIValues(result.data);
+    });
+    return () => subscription.unsubscribe();
+  }, [form, handleISIValues]);
+
+  // A shared link should open with its output already generated
+  const [hasInitialValues] = useState(!!initialValues);
+  useEffect(() => {
+    if (!hasInitialValues) return;
+
+    const result = ISIFormSchema.safeParse(form.getValues());
+    if (result.success) handleISIValues(result.data);
+  }, [form, handleISIValues, hasInitialValues]);
+
+  const contrastChecks = getContrastChecks(form.watch());
+
+  function handleRichPaste(event: React.ClipboardEvent<HTMLTextAreaElement>) {
+    const html = event.clipboardData.getData("text/html");
+    const markup = html ? convertHTMLToMarkup(html) : "";
+    // Let the browser paste plain text as usual
+    if (!markup) return;
+
+    event.preventDefault();
+    const textarea = event.currentTarget;
+    const { selectionStart, selectionEnd, value } = textarea;
+    const caret = selectionStart + markup.length;
+
+    form.setValue(
+      "ISI",
+      value.slice(0, selectionStart) + markup + value.slice(selectionEnd),
+      { shouldDirty: true, shouldValidate: true },
+    );
+    requestAnimationFrame(() => textarea.setSelectionRange(caret, caret));
+  }
+
   return (
     <Form {...form}>
       <form
         className="space-y-3 md:grid md:w-full md:grid-cols-2 md:gap-3 md:space-y-0"
-        onSubmit={form.handleSubmit(handleISIValues)}
+        onSubmit={form.handleSubmit(handleGenerate)}
       >
+        <PresetPicker
+          mode={mode}
+          getSettings={() => toSettings(form.getValues())}
+          onApply={applyPreset}
+        />
+
+        <HTMLImport onImport={applyHTMLImport} />
+
+        <ShareLink
+          mode={mode}
+          getValues={() => form.getValues()}
+          validate={() => form.trigger()}
+          onRestore={restoreVersion}
+        />
+
+        <FormField
+          control={form.control}
+          name="brandName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="brand-name">Brand</FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  placeholder="Used to name downloads"
+                  id="brand-name"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="jobCode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="job-code">Job code</FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  placeholder="e.g. US-ABC-0123"
+                  id="job-code"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="padding"
@@ -192,7 +336,13 @@ export default function ISIForm({
           name="fontColor"
           render={({ field }) => (
             <FormItem>
-              <FormLabel htmlFor="font-color">Font color (#)</FormLabel>
+              <FormLabel htmlFor="font-color">
+                Font color (#)
+                <ContrastBadge
+                  check={contrastChecks.fontColor}
+                  className="ml-2"
+                />
+              </FormLabel>
               <FormControl>
                 <Input
                   type="text"
@@ -244,6 +394,92 @@ export default function ISIForm({
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="fontFamily"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="font-family">Font family</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger id="font-family">
+                    <SelectValue placeholder="Default: Arial" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(fontStacks).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom stack</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="customFontFamily"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="custom-font-family">
+                Custom font stack
+              </FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  placeholder="e.g. 'Segoe UI', Arial, sans-serif"
+                  id="custom-font-family"
+                  disabled={form.watch("fontFamily") !== "custom"}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="webFontName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="web-font-name">Web font name</FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  placeholder="Optional, e.g. Open Sans"
+                  id="web-font-name"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="webFontUrl"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="web-font-url">Web font URL</FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  placeholder="Stylesheet or .woff2 URL"
+                  id="web-font-url"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="hasBullets"
@@ -274,6 +510,9 @@ export default function ISIForm({
               >
                 Bullet color (#)
               </FormLabel> */}
+              {form.watch("hasBullets") && (
+                <ContrastBadge check={contrastChecks.bulletColor} />
+              )}
               <FormControl>
                 <Input
                   type="text"
@@ -288,6 +527,882 @@ export default function ISIForm({
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="blockLowContrast"
+          render={({ field }) => (
+            <FormItem className="col-span-2 flex flex-row items-center space-x-4">
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  id="block-low-contrast"
+                />
+              </FormControl>
+              <FormLabel className="!mt-0" htmlFor="block-low-contrast">
+                Don't generate colors below WCAG AA contrast
+              </FormLabel>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="linkColor"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="link-color">
+                Link color (#)
+                <ContrastBadge
+                  check={contrastChecks.linkColor}
+                  className="ml-2"
+                />
+              </FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  placeholder="Default: #0000EE"
+                  id="link-color"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex flex-col justify-end gap-3">
+          <FormField
+            control={form.control}
+            name="underlineLinks"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center space-x-4">
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    id="underline-links"
+                  />
+                </FormControl>
+                <FormLabel className="!mt-0" htmlFor="underline-links">
+                  Underline links
+                </FormLabel>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="openLinksInNewTab"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center space-x-4">
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    id="open-links-in-new-tab"
+                  />
+                </FormControl>
+                <FormLabel className="!mt-0" htmlFor="open-links-in-new-tab">
+                  Open links in a new tab
+                </FormLabel>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="entityStyle"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="entity-style">Special characters</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger id="entity-style">
+                    <SelectValue placeholder="Default: Named entities" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="named">
+                    Named entities (&amp;reg;)
+                  </SelectItem>
+                  <SelectItem value="decimal">
+                    Decimal entities (&amp;#174;)
+                  </SelectItem>
+                  <SelectItem value="hex">Hex entities (&amp;#xAE;)</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="preservedCharacters"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="preserved-characters">
+                Characters to leave as typed
+              </FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  placeholder="e.g. ®™"
+                  id="preserved-characters"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <TierStyleEditor
+          control={form.control}
+          body={form.watch()}
+          contrastChecks={contrastChecks}
+        />
+
+        <FormField
+          control={form.control}
+          name="boxBorderColor"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="box-border-color">
+                Warning box border (#)
+              </FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  placeholder="Default: #000000"
+                  id="box-border-color"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="boxBorderWidth"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="box-border-width">
+                Warning box border width (px)
+              </FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  placeholder="Default: 2px"
+                  id="box-border-width"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="boxPadding"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="box-padding">
+                Warning box padding (px)
+              </FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  placeholder="Default: 10px"
+                  id="box-padding"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="boxBackgroundColor"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="box-background-color">
+                Warning box background (#)
+                <ContrastBadge
+                  check={contrastChecks.boxBackgroundColor}
+                  className="ml-2"
+                />
+              </FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  placeholder="Default: table color"
+                  id="box-background-color"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="boxHeadingColor"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="box-heading-color">
+                Warning heading color (#)
+                <ContrastBadge
+                  check={contrastChecks.boxHeadingColor}
+                  className="ml-2"
+                />
+              </FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  placeholder="Default: heading color"
+                  id="box-heading-color"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="boxHeadingFontSize"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="box-heading-font-size">
+                Warning heading size (px)
+              </FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  placeholder="Default: heading size"
+                  id="box-heading-font-size"
+                  {...field}
+                  value={field.value ?? ""}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="boxHeadingAlign"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="box-heading-align">
+                Warning heading alignment
+              </FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger id="box-heading-align">
+                    <SelectValue placeholder="Default: Centered" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="center">Centered</SelectItem>
+                  <SelectItem value="left">Left</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {mode === "email" && (
+          <>
+            <FormField
+              control={form.control}
+              name="outputFormat"
+              render={({ field }) => (
+                <FormItem className="col-span-2">
+                  <FormLabel htmlFor="output-format">Output format</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger id="output-format">
+                        <SelectValue placeholder="Default: HTML table" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="html">HTML table</SelectItem>
+                      <SelectItem value="mjml">MJML section</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="tableWidth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="table-width">Table width (px)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="text"
+                      placeholder="Default: 600px"
+                      id="table-width"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex flex-col justify-end gap-3">
+              <FormField
+                control={form.control}
+                name="isResponsive"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center space-x-4">
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        id="is-responsive"
+                      />
+                    </FormControl>
+                    <FormLabel className="!mt-0" htmlFor="is-responsive">
+                      Responsive on mobile
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="isOutlookSafe"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center space-x-4">
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        id="is-outlook-safe"
+                      />
+                    </FormControl>
+                    <FormLabel className="!mt-0" htmlFor="is-outlook-safe">
+                      Outlook-safe
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {form.watch("isResponsive") && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="mobileBreakpoint"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel htmlFor="mobile-breakpoint">
+                        Mobile breakpoint (px)
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="Default: 480px"
+                          id="mobile-breakpoint"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="mobileGutterWidth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel htmlFor="mobile-gutter-width">
+                        Mobile gutter (px)
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="Default: 15px"
+                          id="mobile-gutter-width"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="mobileFontSize"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel htmlFor="mobile-font-size">
+                        Mobile font size (px)
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="Default: 14px"
+                          id="mobile-font-size"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="mobileLineHeight"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel htmlFor="mobile-line-height">
+                        Mobile line height (px)
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="Default: 18px"
+                          id="mobile-line-height"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            <FormField
+              control={form.control}
+              name="isAccessible"
+              render={({ field }) => (
+                <FormItem className="col-span-2 flex flex-row items-center space-x-4">
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      id="is-accessible"
+                    />
+                  </FormControl>
+                  <FormLabel className="!mt-0" htmlFor="is-accessible">
+                    Accessible markup
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+
+            {form.watch("isAccessible") && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="headingTag"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel htmlFor="heading-tag">
+                        Bold lines as headings
+                      </FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger id="heading-tag">
+                            <SelectValue placeholder="Default: Keep as text" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Keep as text</SelectItem>
+                          {headingTags
+                            .filter((headingTag) => headingTag !== "none")
+                            .map((headingTag) => (
+                              <SelectItem key={headingTag} value={headingTag}>
+                                {`<${headingTag}>`}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="lang"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel htmlFor="lang">Language</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="e.g. en or en-US"
+                          id="lang"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            <FormField
+              control={form.control}
+              name="hasDarkMode"
+              render={({ field }) => (
+                <FormItem className="col-span-2 flex flex-row items-center space-x-4">
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      id="has-dark-mode"
+                    />
+                  </FormControl>
+                  <FormLabel className="!mt-0" htmlFor="has-dark-mode">
+                    Dark mode colors
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+
+            {form.watch("hasDarkMode") && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="darkFontColor"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel htmlFor="dark-font-color">
+                        Dark font color (#)
+                        <ContrastBadge
+                          check={contrastChecks.darkFontColor}
+                          className="ml-2"
+                        />
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="Default: #FFFFFF"
+                          id="dark-font-color"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="darkTableColor"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel htmlFor="dark-table-color">
+                        Dark table color (#)
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="Default: #121212"
+                          id="dark-table-color"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="darkBulletColor"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel htmlFor="dark-bullet-color">
+                        Dark bullet color (#)
+                        <ContrastBadge
+                          check={contrastChecks.darkBulletColor}
+                          className="ml-2"
+                        />
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="Default: #FFFFFF"
+                          id="dark-bullet-color"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            <FormField
+              control={form.control}
+              name="textWidth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="text-width">
+                    Plain text width (characters)
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="text"
+                      placeholder="Default: 72"
+                      id="text-width"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="textBullet"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="text-bullet">Plain text bullet</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger id="text-bullet">
+                        <SelectValue placeholder="Default: *" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {textBullets.map((textBullet) => (
+                        <SelectItem key={textBullet} value={textBullet}>
+                          {textBullet}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="uppercaseBoldLines"
+              render={({ field }) => (
+                <FormItem className="col-span-2 flex flex-row items-center space-x-4">
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      id="uppercase-bold-lines"
+                    />
+                  </FormControl>
+                  <FormLabel className="!mt-0" htmlFor="uppercase-bold-lines">
+                    Uppercase bold lines in plain text
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+          </>
+        )}
+
+        {mode === "banner" && (
+          <>
+            <FormField
+              control={form.control}
+              name="adSize"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="ad-size">Ad size</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger id="ad-size">
+                        <SelectValue placeholder="Default: 300x250" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {adSizes.map((adSize) => (
+                        <SelectItem key={adSize} value={adSize}>
+                          {adSize}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="isiHeight"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="isi-height">ISI box height (px)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="text"
+                      placeholder="Default: 100px"
+                      id="isi-height"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="scrollSpeed"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="scroll-speed">
+                    Scroll speed (px/s)
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="text"
+                      placeholder="Default: 10px/s"
+                      id="scroll-speed"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="scrollDelay"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="scroll-delay">Start delay (s)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="text"
+                      placeholder="Default: 2s"
+                      id="scroll-delay"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="pauseOnHover"
+              render={({ field }) => (
+                <FormItem className="col-span-2 flex flex-row items-center space-x-4">
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      id="pause-on-hover"
+                    />
+                  </FormControl>
+                  <FormLabel className="!mt-0" htmlFor="pause-on-hover">
+                    Pause scrolling on hover
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+          </>
+        )}
+
+        <FormField
+          control={form.control}
+          name="indentStyle"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="indent-style">Code formatting</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger id="indent-style">
+                    <SelectValue placeholder="Default: Tabs" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="tabs">Indent with tabs</SelectItem>
+                  <SelectItem value="spaces">Indent with spaces</SelectItem>
+                  <SelectItem value="minified">Minified</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="indentSize"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="indent-size">Spaces per indent</FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  placeholder="Default: 2"
+                  id="indent-size"
+                  disabled={form.watch("indentStyle") !== "spaces"}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="lineEnding"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel htmlFor="line-ending">Line endings</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger id="line-ending">
+                    <SelectValue placeholder="Default: LF" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="lf">LF (macOS, Linux)</SelectItem>
+                  <SelectItem value="crlf">CRLF (Windows)</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="ISI"
@@ -300,17 +1415,36 @@ export default function ISIForm({
                 </TooltipTrigger>
                 <TooltipContent>
                   <p className="mb-2">Insert the following symbols to format your text:</p>
-                  <p><strong>**</strong> Bold text</p>
+                  <p><strong>#</strong> Heading (at the start of a line)</p>
+                  <p><strong>##</strong> Subhead (at the start of a line)</p>
+                  <p><strong>**</strong> Bold line (at the start of a line)</p>
                   <p><strong>&ndash;</strong> Bullet point</p>
+                  <p><strong>1.</strong> Numbered item (renumbered automatically)</p>
+                  <p>Indent with two spaces for a sub-list</p>
+                  <p><strong>:::warning</strong> &hellip; <strong>:::</strong> Boxed warning (on lines of their own)</p>
+                  <p className="mt-2"><strong>**text**</strong> Bold</p>
+                  <p><strong>_text_</strong> Italic</p>
+                  <p><strong>__text__</strong> Underline</p>
+                  <p><strong>^text^</strong> Superscript</p>
+                  <p><strong>[text](https://...)</strong> Link</p>
                 </TooltipContent>
               </Tooltip>
               <FormControl>
                 <Textarea
                   className="min-h-60 resize-none scrollbar scrollbar-track-transparent scrollbar-thumb-slate-800"
                   {...field}
+                  onPaste={handleRichPaste}
                 />
               </FormControl>
               <FormMessage />
+              <ISIFileDrop
+                onImport={(markup) =>
+                  form.setValue("ISI", markup, {
+                    shouldDirty: true,
+                    shouldValidate: true,
+                  })
+                }
+              />
             </FormItem>
           )}
         />
@@ -323,6 +1457,12 @@ export default function ISIForm({
           <CodeXml className="mr-2" />
           Generate your HTML code
         </Button>
+
+        <VersionHistory
+          mode={mode}
+          refreshKey={historyKey}
+          onRestore={restoreVersion}
+        />
       </form>
     </Form>
   );
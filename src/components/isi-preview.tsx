@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from "react";
+import { Monitor, Smartphone, ZoomIn, ZoomOut } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { LintIssue } from "@/lib/email-lint";
+import { formatByteSize } from "@/lib/output-format";
+import LintPanel from "./lint-panel";
+import { Button } from "./ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+
+const devices = {
+  desktop: { width: 800, height: 600 },
+  mobile: { width: 375, height: 667 },
+};
+
+const zoomLevels = [0.5, 0.75, 1, 1.25, 1.5];
+
+type Device = keyof typeof devices;
+
+type ISIPreviewProps = {
+  generatedISI: string;
+  // Rendered instead of the generated code when that can't be shown as is
+  previewISI?: string;
+  generatedText?: string;
+  // Only email HTML is linted, other outputs leave this undefined
+  lintIssues?: LintIssue[];
+  children?: React.ReactNode;
+};
+
+function buildPreviewDocument(generatedISI: string) {
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"></head><body style="margin: 0;">${generatedISI}</body></html>`;
+}
+
+export default function ISIPreview({
+  generatedISI,
+  previewISI,
+  generatedText,
+  lintIssues,
+  children,
+}: ISIPreviewProps) {
+  const [tab, setTab] = useState("rendered");
+  const [device, setDevice] = useState<Device>("desktop");
+  const [zoomIndex, setZoomIndex] = useState(zoomLevels.indexOf(1));
+  const [selectedLine, setSelectedLine] = useState<number | null>(null);
+  const sourceRef = useRef<HTMLPreElement>(null);
+
+  const zoom = zoomLevels[zoomIndex];
+  const { width, height } = devices[device];
+
+  const issueLines = new Map(
+    // Errors win over warnings on the same line
+    [...(lintIssues ?? [])]
+      .sort((a, b) =>
+        a.severity === b.severity ? 0 : a.severity === "error" ? 1 : -1,
+      )
+      .map(({ line, severity }) => [line, severity]),
+  );
+
+  // Runs after the source tab is shown, so the line exists to scroll to
+  useEffect(() => {
+    if (tab !== "source" || selectedLine === null) return;
+    sourceRef.current?.children[selectedLine - 1]?.scrollIntoView({
+      block: "center",
+    });
+  }, [tab, selectedLine]);
+
+  function handleSelectIssue(line: number) {
+    setSelectedLine(line);
+    setTab("source");
+  }
+
+  return (
+    <Tabs value={tab} onValueChange={setTab} className="flex w-full flex-col">
+      <div className="mb-2 flex flex-wrap items-center gap-2">
+        {children}
+        <TabsList>
+          <TabsTrigger value="rendered">Preview</TabsTrigger>
+          <TabsTrigger value="source">Source</TabsTrigger>
+          {generatedText && <TabsTrigger value="text">Plain text</TabsTrigger>}
+        </TabsList>
+        <span className="text-xs text-muted-foreground" title="Output size">
+          {formatByteSize(generatedISI)}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            size="icon"
+            variant={device === "desktop" ? "secondary" : "ghost"}
+            onClick={() => setDevice("desktop")}
+            title={`Desktop (${devices.desktop.width}px)`}
+          >
+            <Monitor className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant={device === "mobile" ? "secondary" : "ghost"}
+            onClick={() => setDevice("mobile")}
+            title={`Mobile (${devices.mobile.width}px)`}
+          >
+            <Smartphone className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => setZoomIndex(zoomIndex - 1)}
+            disabled={zoomIndex === 0}
+            title="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="w-10 text-center text-xs">
+            {Math.round(zoom * 100)}%
+          </span>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => setZoomIndex(zoomIndex + 1)}
+            disabled={zoomIndex === zoomLevels.length - 1}
+            title="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <TabsContent
+        value="rendered"
+        className="min-h-0 overflow-auto rounded-md border-2 scrollbar scrollbar-track-transparent scrollbar-thumb-zinc-800"
+      >
+        <div style={{ width: width * zoom, height: height * zoom }}>
+          <iframe
+            title="ISI preview"
+            sandbox="allow-scripts"
+            srcDoc={buildPreviewDocument(previewISI || generatedISI)}
+            className="origin-top-left bg-white"
+            style={{ width, height, transform: `scale(${zoom})` }}
+          />
+        </div>
+      </TabsContent>
+
+      <TabsContent
+        value="source"
+        className="min-h-0 overflow-y-auto rounded-md border-2 p-4 scrollbar scrollbar-track-transparent scrollbar-thumb-zinc-800"
+      >
+        <pre ref={sourceRef} className="text-xs">
+          {generatedISI.split(/\r?\n/).map((line, index) => (
+            <div
+              key={index}
+              className={cn(
+                issueLines.get(index + 1) === "error" && "bg-red-600/20",
+                issueLines.get(index + 1) === "warning" && "bg-yellow-600/20",
+                selectedLine === index + 1 && "ring-1 ring-ring",
+              )}
+            >
+              {line || " "}
+            </div>
+          ))}
+        </pre>
+      </TabsContent>
+
+      <TabsContent
+        value="text"
+        className="min-h-0 overflow-y-auto rounded-md border-2 p-4 scrollbar scrollbar-track-transparent scrollbar-thumb-zinc-800"
+      >
+        <pre className="text-xs">{generatedText}</pre>
+      </TabsContent>
+
+      {lintIssues && (
+        <LintPanel
+          issues={lintIssues}
+          selectedLine={selectedLine}
+          onSelect={handleSelectIssue}
+        />
+      )}
+    </Tabs>
+  );
+}
@@ -0,0 +1,62 @@
+import { CircleCheck, CircleX, TriangleAlert } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { LintIssue } from "@/lib/email-lint";
+
+type LintPanelProps = {
+  issues: LintIssue[];
+  selectedLine: number | null;
+  onSelect: (line: number) => void;
+};
+
+export default function LintPanel({
+  issues,
+  selectedLine,
+  onSelect,
+}: LintPanelProps) {
+  if (issues.length === 0) {
+    return (
+      <p className="mt-2 flex items-center gap-1 text-xs text-muted-foreground">
+        <CircleCheck className="h-4 w-4 text-green-600" />
+        No email compatibility issues found.
+      </p>
+    );
+  }
+
+  const errorCount = issues.filter(
+    ({ severity }) => severity === "error",
+  ).length;
+  const warningCount = issues.length - errorCount;
+
+  return (
+    <div className="mt-2 rounded-md border-2 text-xs">
+      <p className="border-b px-3 py-2 font-medium">
+        {errorCount} error{errorCount === 1 ? "" : "s"}, {warningCount} warning
+        {warningCount === 1 ? "" : "s"}
+      </p>
+      <ul className="max-h-40 overflow-y-auto scrollbar scrollbar-track-transparent scrollbar-thumb-zinc-800">
+        {issues.map((issue, index) => (
+          <li key={index}>
+            <button
+              type="button"
+              className={cn(
+                "flex w-full items-start gap-2 px-3 py-1.5 text-left hover:bg-accent",
+                selectedLine === issue.line && "bg-accent",
+              )}
+              onClick={() => onSelect(issue.line)}
+            >
+              {issue.severity === "error" ? (
+                <CircleX className="h-4 w-4 shrink-0 text-red-600" />
+              ) : (
+                <TriangleAlert className="h-4 w-4 shrink-0 text-yellow-600" />
+              )}
+              <span className="w-12 shrink-0 text-muted-foreground">
+                Line {issue.line}
+              </span>
+              <span>{issue.message}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { Download, Save, Star, Trash2, Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { downloadFile, toFileName } from "@/lib/download";
+import type { ISIMode } from "@/lib/isi-schema";
+import {
+  ISISettingsSchema,
+  loadPresetStore,
+  parsePresetFile,
+  savePresetStore,
+  serializePresets,
+  type ISISettings,
+  type PresetStore,
+} from "@/lib/presets";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { useToast } from "./ui/use-toast";
+
+type PresetPickerProps = {
+  mode: ISIMode;
+  getSettings: () => ISISettings;
+  onApply: (settings: ISISettings) => void;
+};
+
+export default function PresetPicker({
+  mode,
+  getSettings,
+  onApply,
+}: PresetPickerProps) {
+  const [store, setStore] = useState<PresetStore>(loadPresetStore);
+  const [selectedName, setSelectedName] = useState(
+    () => store.defaultPresets[mode] ?? "",
+  );
+  const [newName, setNewName] = useState("");
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+
+  const { toast } = useToast();
+
+  const presets = store.presets.filter((preset) => preset.mode === mode);
+  const selectedPreset = presets.find(({ name }) => name === selectedName);
+  const isDefault =
+    !!selectedPreset && store.defaultPresets[mode] === selectedName;
+
+  function updateStore(nextStore: PresetStore) {
+    setStore(nextStore);
+    savePresetStore(nextStore);
+  }
+
+  function handleSelect(name: string) {
+    const preset = presets.find((preset) => preset.name === name);
+    if (!preset) return;
+
+    setSelectedName(name);
+    onApply(preset.settings);
+  }
+
+  function handleSave(event: React.FormEvent) {
+    event.preventDefault();
+    // The popover is portaled, but React still bubbles the submit event up
+    // to the ISI form around this picker
+    event.stopPropagation();
+    const name = newName.trim();
+    if (!name) return;
+
+    // Invalid settings would fail to load again later, so they're never saved
+    const result = ISISettingsSchema.safeParse(getSettings());
+    if (!result.success) {
+      toast({
+        description: `The preset wasn't saved. ${result.error.issues[0].message}.`,
+      });
+      return;
+    }
+
+    const isUpdate = presets.some((preset) => preset.name === name);
+    updateStore({
+      ...store,
+      presets: [
+        ...store.presets.filter(
+          (preset) => preset.mode !== mode || preset.name !== name,
+        ),
+        { name, mode, settings: result.data },
+      ],
+    });
+    setSelectedName(name);
+    setNewName("");
+    setIsSaveOpen(false);
+    toast({
+      description: `Preset "${name}" was ${isUpdate ? "updated" : "saved"}.`,
+    });
+  }
+
+  function handleToggleDefault() {
+    if (!selectedPreset) return;
+
+    updateStore({
+      ...store,
+      defaultPresets: {
+        ...store.defaultPresets,
+        [mode]: isDefault ? undefined : selectedPreset.name,
+      },
+    });
+  }
+
+  function handleDelete() {
+    if (!selectedPreset) return;
+
+    updateStore({
+      presets: store.presets.filter((preset) => preset !== selectedPreset),
+      defaultPresets: {
+        ...store.defaultPresets,
+        [mode]: isDefault ? undefined : store.defaultPresets[mode],
+      },
+    });
+    setSelectedName("");
+    toast({ description: `Preset "${selectedPreset.name}" was deleted.` });
+  }
+
+  function handleExport() {
+    const exported = selectedPreset ? [selectedPreset] : presets;
+    const fileName = selectedPreset
+      ? `${toFileName(selectedPreset.name)}.isi-preset.json`
+      : `${mode}-isi-presets.json`;
+
+    downloadFile(fileName, serializePresets(exported), "application/json");
+  }
+
+  function handleImport(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    file
+      .text()
+      .then((json) => {
+        const imported = parsePresetFile(json);
+        const isImported = (mode: ISIMode, name: string) =>
+          imported.some(
+            (preset) => preset.mode === mode && preset.name === name,
+          );
+
+        updateStore({
+          ...store,
+          presets: [
+            ...store.presets.filter(
+              (preset) => !isImported(preset.mode, preset.name),
+            ),
+            ...imported,
+          ],
+        });
+        toast({
+          description: `${imported.length} preset${imported.length === 1 ? " was" : "s were"} imported.`,
+        });
+      })
+      .catch((error: Error) => {
+        toast({
+          description: `It wasn't possible to import ${file.name}. ${error.message}`,
+        });
+      });
+  }
+
+  return (
+    <div className="col-span-2 flex items-center gap-1">
+      <Select
+        value={selectedPreset ? selectedName : ""}
+        onValueChange={handleSelect}
+      >
+        <SelectTrigger aria-label="Brand preset">
+          <SelectValue
+            placeholder={
+              presets.length ? "Choose a preset" : "No saved presets"
+            }
+          />
+        </SelectTrigger>
+        <SelectContent>
+          {presets.map(({ name }) => (
+            <SelectItem key={name} value={name}>
+              {name}
+              {store.defaultPresets[mode] === name && " (default)"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="shrink-0"
+            title="Save current settings as a preset"
+          >
+            <Save className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end">
+          <form className="flex gap-2" onSubmit={handleSave}>
+            <Input
+              placeholder="Preset name"
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              autoFocus
+            />
+            <Button type="submit" variant="secondary">
+              Save
+            </Button>
+          </form>
+        </PopoverContent>
+      </Popover>
+
+      <Button
+        type="button"
+        size="icon"
+        variant="ghost"
+        className="shrink-0"
+        onClick={handleToggleDefault}
+        disabled={!selectedPreset}
+        title={isDefault ? "Unset default preset" : "Set as default preset"}
+      >
+        <Star className={cn("h-4 w-4", isDefault && "fill-current")} />
+      </Button>
+
+      <Button
+        type="button"
+        size="icon"
+        variant="ghost"
+        className="shrink-0"
+        onClick={handleDelete}
+        disabled={!selectedPreset}
+        title="Delete preset"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+
+      <Button
+        type="button"
+        size="icon"
+        variant="ghost"
+        className="shrink-0"
+        onClick={handleExport}
+        disabled={!presets.length}
+        title={selectedPreset ? "Export preset" : "Export all presets"}
+      >
+        <Download className="h-4 w-4" />
+      </Button>
+
+      <Button
+        size="icon"
+        variant="ghost"
+        className="shrink-0 cursor-pointer"
+        asChild
+        title="Import presets"
+      >
+        <label>
+          <Upload className="h-4 w-4" />
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </label>
+      </Button>
+    </div>
+  );
+}
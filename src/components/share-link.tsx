@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { Download, Link, TriangleAlert, Upload } from "lucide-react";
+import { downloadFile } from "@/lib/download";
+import { getExportName } from "@/lib/export-files";
+import type { ISIMode, ISIValues } from "@/lib/isi-schema";
+import {
+  createPermalink,
+  maxPermalinkLength,
+  parseStateFile,
+  serializeState,
+} from "@/lib/permalink";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { useToast } from "./ui/use-toast";
+
+type ShareLinkProps = {
+  mode: ISIMode;
+  getValues: () => ISIValues;
+  // Resolves to false, and shows the errors in the form, when a value is
+  // invalid. A link with such a value couldn't be opened again.
+  validate: () => Promise<boolean>;
+  onRestore: (values: ISIValues) => void;
+};
+
+export default function ShareLink({
+  mode,
+  getValues,
+  validate,
+  onRestore,
+}: ShareLinkProps) {
+  const [link, setLink] = useState("");
+
+  const { toast } = useToast();
+
+  const isTooLong = link.length > maxPermalinkLength;
+
+  function withValidValues(share: (values: ISIValues) => void) {
+    validate().then((isValid) => {
+      if (isValid) share(getValues());
+      else
+        toast({
+          description: "Fix the highlighted fields before sharing this ISI.",
+        });
+    });
+  }
+
+  function handleOpenChange(isOpen: boolean) {
+    // The link is made when the popover opens, so it has the latest edits
+    if (isOpen)
+      withValidValues((values) => setLink(createPermalink(mode, values)));
+    else setLink("");
+  }
+
+  function copyLink() {
+    navigator.clipboard
+      .writeText(link)
+      .then(() => {
+        toast({ description: "The link was copied to your clipboard." });
+      })
+      .catch(() => {
+        toast({ description: "It wasn't possible to copy the link." });
+      });
+  }
+
+  function downloadState() {
+    withValidValues((values) =>
+      downloadFile(
+        `${getExportName(values)}.isi-state.json`,
+        serializeState(mode, values),
+        "application/json",
+      ),
+    );
+  }
+
+  function handleOpenState(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    file
+      .text()
+      .then((json) => {
+        const state = parseStateFile(json);
+        if (state.mode !== mode)
+          throw new Error(`It was saved from the ${state.mode} tab`);
+
+        onRestore(state.values);
+        toast({ description: `${file.name} was restored.` });
+      })
+      .catch((error: Error) => {
+        toast({
+          description: `It wasn't possible to open ${file.name}. ${error.message}`,
+        });
+      });
+  }
+
+  return (
+    <Popover open={!!link} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" className="col-span-2 w-full">
+          <Link className="mr-2 h-4 w-4" />
+          Share link
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 space-y-2 text-xs">
+        <div className="flex gap-2">
+          <Input
+            readOnly
+            value={link}
+            aria-label="Link to this ISI"
+            onFocus={(event) => event.target.select()}
+          />
+          <Button type="button" variant="secondary" onClick={copyLink}>
+            Copy
+          </Button>
+        </div>
+
+        {isTooLong && (
+          <p className="flex items-start gap-1">
+            <TriangleAlert className="h-4 w-4 shrink-0 text-yellow-600" />
+            This link is {link.length} characters long, so some email clients
+            and chat apps may cut it off. Send a state file instead.
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant={isTooLong ? "secondary" : "ghost"}
+            className="flex-1"
+            onClick={downloadState}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Download state file
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            className="flex-1 cursor-pointer"
+            asChild
+          >
+            <label>
+              <Upload className="mr-2 h-4 w-4" />
+              Open state file
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={handleOpenState}
+              />
+            </label>
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
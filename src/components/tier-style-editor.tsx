@@ -0,0 +1,108 @@
+import type { Control } from "react-hook-form";
+import type { ContrastChecks } from "@/lib/color-contrast";
+import type { ISIValues } from "@/lib/isi-schema";
+import { styleTiers } from "@/lib/style-tiers";
+import ContrastBadge from "./contrast-badge";
+import { Input } from "./ui/input";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+
+type TierStyleEditorProps = {
+  control: Control<ISIValues>;
+  // The body settings each empty field falls back to
+  body: Partial<ISIValues>;
+  contrastChecks: ContrastChecks;
+};
+
+const tierLabels = {
+  heading: "Heading (#)",
+  subhead: "Subhead (##)",
+  bullet: "Bullets",
+};
+
+const tierFields = [
+  { name: "fontSize", label: "Font size (px)", bodyField: "fontSize" },
+  { name: "lineHeight", label: "Line height (px)", bodyField: "lineHeight" },
+  { name: "fontColor", label: "Font color (#)", bodyField: "fontColor" },
+  { name: "letterSpacing", label: "Letter spacing (px)" },
+  { name: "padding", label: "Padding below (px)", bodyField: "padding" },
+] as const;
+
+export default function TierStyleEditor({
+  control,
+  body,
+  contrastChecks,
+}: TierStyleEditorProps) {
+  return (
+    <div className="col-span-2 rounded-md border-2 p-3">
+      <p className="mb-2 text-sm font-medium">Text styles</p>
+      <Tabs defaultValue="heading">
+        <TabsList>
+          {styleTiers.map((tier) => (
+            <TabsTrigger key={tier} value={tier}>
+              {tierLabels[tier]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+
+        {styleTiers.map((tier) => (
+          <TabsContent
+            key={tier}
+            value={tier}
+            className="grid grid-cols-2 gap-3"
+          >
+            {tierFields.map(({ name, label, ...field }) => {
+              const fallback =
+                "bodyField" in field ? body[field.bodyField] : undefined;
+              const id = `${tier}-${name}`;
+
+              return (
+                <FormField
+                  key={name}
+                  control={control}
+                  name={`tierStyles.${tier}.${name}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel htmlFor={id}>
+                        {label}
+                        {name === "fontColor" && (
+                          <ContrastBadge
+                            check={
+                              contrastChecks[`tierStyles.${tier}.fontColor`]
+                            }
+                            className="ml-2"
+                          />
+                        )}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder={
+                            fallback ? `Body: ${fallback}` : "Default: none"
+                          }
+                          id={id}
+                          {...field}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              );
+            })}
+          </TabsContent>
+        ))}
+      </Tabs>
+      <p className="mt-2 text-xs text-muted-foreground">
+        Empty fields use the body settings above.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+import { useEffect, useState } from "react";
+import { History, RotateCcw, Tag, Trash2 } from "lucide-react";
+import type { ISIMode, ISIValues } from "@/lib/isi-schema";
+import {
+  deleteVersion,
+  formatVersionDate,
+  labelVersion,
+  listVersions,
+  type ISIVersion,
+} from "@/lib/version-history";
+import DiffView from "./diff-view";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Switch } from "./ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import { useToast } from "./ui/use-toast";
+
+type VersionHistoryProps = {
+  mode: ISIMode;
+  // Changes whenever a new version is saved, so the list is read again
+  refreshKey: number;
+  onRestore: (values: ISIValues) => void;
+};
+
+const getVersionName = ({ label, createdAt }: ISIVersion) =>
+  label || formatVersionDate(createdAt);
+
+function LabelPopover({
+  version,
+  onLabel,
+}: {
+  version: ISIVersion;
+  onLabel: (label: string) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [label, setLabel] = useState(version.label);
+
+  function handleSave(event: React.FormEvent) {
+    event.preventDefault();
+    // Same as presets, the portaled form still bubbles to the ISI form
+    event.stopPropagation();
+    onLabel(label);
+    setIsOpen(false);
+  }
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7 shrink-0"
+          title="Label version"
+        >
+          <Tag className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end">
+        <form className="flex gap-2" onSubmit={handleSave}>
+          <Input
+            placeholder="e.g. MLR round 2"
+            value={label}
+            onChange={(event) => setLabel(event.target.value)}
+            autoFocus
+          />
+          <Button type="submit" variant="secondary">
+            Save
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default function VersionHistory({
+  mode,
+  refreshKey,
+  onRestore,
+}: VersionHistoryProps) {
+  const [versions, setVersions] = useState<ISIVersion[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [oldId, setOldId] = useState<number>();
+  const [newId, setNewId] = useState<number>();
+  const [diffSource, setDiffSource] = useState("text");
+  const [isSideBySide, setIsSideBySide] = useState(true);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    listVersions(mode)
+      .then((versions) => {
+        if (!isCurrent) return;
+        setVersions(versions);
+        // Compare the two newest versions until the user picks others
+        setNewId(versions[0]?.id);
+        setOldId(versions[1]?.id);
+      })
+      .catch(() => {
+        // IndexedDB is unavailable in some private windows, which simply
+        // means no history
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [mode, refreshKey]);
+
+  function handleRestore(version: ISIVersion) {
+    onRestore(version.values);
+    toast({ description: `"${getVersionName(version)}" was restored.` });
+  }
+
+  function handleLabel(version: ISIVersion, label: string) {
+    labelVersion(version, label)
+      .then(() =>
+        setVersions((versions) =>
+          versions.map((item) =>
+            item.id === version.id ? { ...item, label: label.trim() } : item,
+          ),
+        ),
+      )
+      .catch(() => {
+        toast({ description: "It wasn't possible to label this version." });
+      });
+  }
+
+  function handleDelete(version: ISIVersion) {
+    deleteVersion(version.id)
+      .then(() => {
+        setVersions((versions) =>
+          versions.filter(({ id }) => id !== version.id),
+        );
+        if (oldId === version.id) setOldId(undefined);
+        if (newId === version.id) setNewId(undefined);
+      })
+      .catch(() => {
+        toast({ description: "It wasn't possible to delete this version." });
+      });
+  }
+
+  const oldVersion = versions.find(({ id }) => id === oldId);
+  const newVersion = versions.find(({ id }) => id === newId);
+
+  const renderVersionSelect = (
+    value: number | undefined,
+    onChange: (id: number) => void,
+    label: string,
+  ) => (
+    <Select
+      value={value === undefined ? "" : String(value)}
+      onValueChange={(id) => onChange(Number(id))}
+    >
+      <SelectTrigger aria-label={label} className="h-8 text-xs">
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.id} value={String(version.id)}>
+            {getVersionName(version)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="col-span-2 rounded-md border-2 text-xs">
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 px-3 py-2 font-medium"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        <History className="h-4 w-4" />
+        Version history ({versions.length})
+      </button>
+
+      {isOpen && versions.length === 0 && (
+        <p className="border-t px-3 py-2 text-muted-foreground">
+          Every ISI you generate is saved here, so you can go back to it.
+        </p>
+      )}
+
+      {isOpen && versions.length > 0 && (
+        <>
+          <ul className="max-h-40 overflow-y-auto border-t scrollbar scrollbar-track-transparent scrollbar-thumb-zinc-800">
+            {versions.map((version) => (
+              <li
+                key={version.id}
+                className="flex items-center gap-1 px-3 py-1 hover:bg-accent"
+              >
+                <span className="flex-1 truncate">
+                  {version.label && (
+                    <span className="mr-2 font-medium">{version.label}</span>
+                  )}
+                  <span className="text-muted-foreground">
+                    {formatVersionDate(version.createdAt)}
+                  </span>
+                </span>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => handleRestore(version)}
+                  title="Restore into the form"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+                <LabelPopover
+                  version={version}
+                  onLabel={(label) => handleLabel(version, label)}
+                />
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => handleDelete(version)}
+                  title="Delete version"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+
+          {versions.length > 1 && (
+            <div className="border-t">
+              <div className="grid grid-cols-2 gap-2 px-3 py-2">
+                {renderVersionSelect(oldId, setOldId, "Compare")}
+                {renderVersionSelect(newId, setNewId, "With")}
+              </div>
+              <div className="flex items-center justify-between px-3 pb-2">
+                <Tabs value={diffSource} onValueChange={setDiffSource}>
+                  <TabsList className="h-8">
+                    <TabsTrigger value="text" className="text-xs">
+                      Source text
+                    </TabsTrigger>
+                    <TabsTrigger value="output" className="text-xs">
+                      Generated code
+                    </TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                <label className="flex items-center gap-2">
+                  <Switch
+                    checked={isSideBySide}
+                    onCheckedChange={setIsSideBySide}
+                  />
+                  Side by side
+                </label>
+              </div>
+              {oldVersion && newVersion && (
+                <DiffView
+                  oldText={
+                    diffSource === "text"
+                      ? oldVersion.values.ISI
+                      : oldVersion.output
+                  }
+                  newText={
+                    diffSource === "text"
+                      ? newVersion.values.ISI
+                      : newVersion.output
+                  }
+                  isSideBySide={isSideBySide}
+                />
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
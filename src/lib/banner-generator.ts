@@ -0,0 +1,134 @@
+import { getBoxStyle, splitBoxedSections } from "./boxed-warning";
+import { renderInlineHTML } from "./inline-markup";
+import { parseISI, type ISIRow } from "./isi-parser";
+import { createListOffsets } from "./list-markers";
+import { getFontStack, getWebFontMarkup } from "./font-stacks";
+import type { ISIValues } from "./isi-schema";
+import { getRowTier, type TierStyle } from "./style-tiers";
+
+// Only what a tier sets is written out, the rest cascades from "#isi p"
+const getTierDeclarations = (style: TierStyle = {}) =>
+  [
+    style.fontSize !== undefined && ` font-size: ${style.fontSize}px;`,
+    style.lineHeight !== undefined && ` line-height: ${style.lineHeight}px;`,
+    style.fontColor && ` color: ${style.fontColor};`,
+    style.letterSpacing && ` letter-spacing: ${style.letterSpacing}px;`,
+    style.padding !== undefined && ` padding-bottom: ${style.padding}px;`,
+  ]
+    .filter(Boolean)
+    .join("");
+
+export function generateBannerISI({
+  padding,
+  fontSize,
+  fontColor,
+  tableColor,
+  lineHeight,
+  fontFamily,
+  customFontFamily,
+  webFontName,
+  webFontUrl,
+  gutterWidth,
+  ISI,
+  bulletColor,
+  linkColor,
+  underlineLinks,
+  openLinksInNewTab,
+  entityStyle,
+  preservedCharacters,
+  adSize = "300x250",
+  isiHeight = 100,
+  scrollSpeed = 10,
+  scrollDelay = 2,
+  pauseOnHover = true,
+  tierStyles,
+  boxBorderColor,
+  boxBorderWidth,
+  boxPadding,
+  boxBackgroundColor,
+  boxHeadingColor,
+  boxHeadingFontSize,
+  boxHeadingAlign = "center",
+}: ISIValues) {
+  const [adWidth, adHeight] = adSize.split("x").map(Number);
+  // The ISI box can never be taller than the ad it lives in
+  const boxHeight = Math.min(isiHeight, adHeight);
+  const fontOptions = { fontFamily, customFontFamily, webFontName, webFontUrl };
+  const webFontMarkup = getWebFontMarkup(fontOptions);
+  const backgroundColor = tableColor ? tableColor : "#FFFFFF";
+
+  const inlineOptions = {
+    linkColor,
+    underlineLinks,
+    openLinksInNewTab,
+    entityStyle,
+    preservedCharacters,
+  };
+
+  const getListOffsets = createListOffsets();
+
+  const generateRow = (row: ISIRow, indent: string) => {
+    const { content, isBold, isBullet, level, isOrdered, index } = row;
+    const text = renderInlineHTML(content, inlineOptions);
+
+    if (isBullet) {
+      const { glyph, markerOffset, textOffset } = getListOffsets(
+        level,
+        isOrdered,
+        index,
+      );
+
+      return `${indent}<p class="isi-bullet" style="padding-left: ${textOffset}px;"><span class="isi-marker" style="left: ${markerOffset}px;">${glyph}</span>${text}</p>`;
+    }
+
+    const tier = getRowTier(row);
+    const className =
+      tier === "heading" || tier === "subhead"
+        ? `isi-${tier}`
+        : isBold && "isi-bold";
+
+    return `${indent}<p${className ? ` class="${className}"` : ""}>${text}</p>`;
+  };
+
+  const sections = splitBoxedSections(parseISI(ISI));
+  const generatedISIRows = sections
+    .map(({ box, rows }) => {
+      if (box === 0)
+        return rows.map((row) => generateRow(row, "\n\t\t\t")).join("");
+
+      const boxRows = rows.map((row) => generateRow(row, "\n\t\t\t\t"));
+      return `\n\t\t\t<div class="isi-box">${boxRows.join("")}\n\t\t\t</div>`;
+    })
+    .join("");
+
+  const boxStyle = getBoxStyle({
+    padding,
+    boxBorderColor,
+    boxBorderWidth,
+    boxPadding,
+    boxBackgroundColor,
+  });
+  const boxHeadingDeclarations = [
+    ` text-align: ${boxHeadingAlign};`,
+    boxHeadingColor && ` color: ${boxHeadingColor};`,
+    boxHeadingFontSize !== undefined && ` font-size: ${boxHeadingFontSize}px;`,
+  ]
+    .filter(Boolean)
+    .join("");
+  const boxRules = sections.some(({ box }) => box > 0)
+    ? `\n\t#isi .isi-box { margin-bottom: ${boxStyle.spacingBelow}px; ${boxStyle.declarations} }\n\t#isi .isi-box p.isi-heading, #isi .isi-box p.isi-subhead {${boxHeadingDeclarations} }`
+    : "";
+
+  const style = `<style>\n\t#isi { position: relative; width: ${adWidth}px; height: ${boxHeight}px; background-color: ${backgroundColor}; overflow: hidden; }\n\t#isi .isi-scroll { height: 100%; overflow-y: scroll; padding: 0 ${gutterWidth ?? 10}px; box-sizing: border-box; scrollbar-width: thin; scrollbar-color: ${fontColor} transparent; }\n\t#isi .isi-scroll::-webkit-scrollbar { width: 6px; }\n\t#isi .isi-scroll::-webkit-scrollbar-track { background: transparent; }\n\t#isi .isi-scroll::-webkit-scrollbar-thumb { background: ${fontColor}; border-radius: 3px; }\n\t#isi p { margin: 0; padding-bottom: ${padding}px; font-family: ${getFontStack(fontOptions)}; font-size: ${fontSize}px; line-height: ${lineHeight}px; color: ${fontColor}; font-weight: normal; }\n\t#isi p.isi-bold { font-weight: bold; }\n\t#isi p.isi-heading { font-weight: bold;${getTierDeclarations(tierStyles?.heading)} }\n\t#isi p.isi-subhead { font-weight: bold;${getTierDeclarations(tierStyles?.subhead)} }\n\t#isi p.isi-bullet { position: relative;${getTierDeclarations(tierStyles?.bullet)} }\n\t#isi .isi-marker { position: absolute; top: 0; color: ${bulletColor}; font-weight: bold; }${boxRules}\n</style>`;
+
+  // Focusable, so keyboard users can scroll it and take over from the
+  // auto-scroll
+  const markup = `<div id="isi">\n\t<div class="isi-scroll" tabindex="0">\n\t\t<div class="isi-content">${generatedISIRows}\n\t\t</div>\n\t</div>\n</div>`;
+
+  // Auto-scroll runs on requestAnimationFrame so the speed stays in px per
+  // second regardless of frame rate. Any manual interaction hands the
+  // scrollbar over to the user for good.
+  const script = `<script>\n\t(function () {\n\t\tvar scroller = document.querySelector("#isi .isi-scroll");\n\t\tvar speed = ${scrollSpeed};\n\t\tvar delay = ${scrollDelay * 1000};\n\t\tvar pauseOnHover = ${pauseOnHover};\n\t\tvar isPaused = false;\n\t\tvar isStopped = false;\n\t\tvar position = 0;\n\t\tvar lastTime = null;\n\n\t\tfunction step(time) {\n\t\t\tif (isStopped) return;\n\t\t\tif (lastTime !== null && !isPaused) {\n\t\t\t\tposition += (speed * (time - lastTime)) / 1000;\n\t\t\t\tscroller.scrollTop = position;\n\t\t\t\tif (scroller.scrollTop + scroller.clientHeight >= scroller.scrollHeight) return;\n\t\t\t}\n\t\t\tlastTime = time;\n\t\t\twindow.requestAnimationFrame(step);\n\t\t}\n\n\t\tfunction stop() {\n\t\t\tisStopped = true;\n\t\t}\n\n\t\tif (pauseOnHover) {\n\t\t\tscroller.addEventListener("mouseenter", function () {\n\t\t\t\tisPaused = true;\n\t\t\t});\n\t\t\tscroller.addEventListener("mouseleave", function () {\n\t\t\t\tisPaused = false;\n\t\t\t\tposition = scroller.scrollTop;\n\t\t\t});\n\t\t}\n\t\tscroller.addEventListener("wheel", stop, { passive: true });\n\t\tscroller.addEventListener("touchstart", stop, { passive: true });\n\t\tscroller.addEventListener("mousedown", stop);\n\t\tscroller.addEventListener("keydown", stop);\n\n\t\tif (speed > 0) {\n\t\t\twindow.setTimeout(function () {\n\t\t\t\twindow.requestAnimationFrame(step);\n\t\t\t}, delay);\n\t\t}\n\t})();\n</script>`;
+
+  return `${webFontMarkup ? `${webFontMarkup}\n` : ""}${style}\n${markup}\n${script}`;
+}
@@ -0,0 +1,77 @@
+import type { ISIRow } from "./isi-parser";
+import type { ISIValues } from "./isi-schema";
+import type { ResolvedTierStyle } from "./style-tiers";
+
+export const boxHeadingAligns = ["left", "center"] as const;
+
+export type ISISection = {
+  // Same as ISIRow["box"], 0 for rows outside a boxed warning
+  box: number;
+  rows: ISIRow[];
+};
+
+/**
+ * Splits the rows into runs that are in or out of a boxed warning, keeping
+ * their order. Two boxes back to back stay two sections.
+ */
+export function splitBoxedSections(rows: ISIRow[]) {
+  const sections: ISISection[] = [];
+
+  rows.forEach((row) => {
+    const section = sections[sections.length - 1];
+    if (section && section.box === row.box) section.rows.push(row);
+    else sections.push({ box: row.box, rows: [row] });
+  });
+
+  return sections;
+}
+
+/**
+ * The CSS of the box and the spacing that goes below it. The box has no
+ * bottom padding of its own, the spacing below its last row closes it, and
+ * the box is followed by the same spacing as any other row.
+ */
+export function getBoxStyle({
+  padding,
+  boxBorderColor,
+  boxBorderWidth,
+  boxPadding,
+  boxBackgroundColor,
+}: Pick<
+  ISIValues,
+  | "padding"
+  | "boxBorderColor"
+  | "boxBorderWidth"
+  | "boxPadding"
+  | "boxBackgroundColor"
+>) {
+  const boxPaddingValue = boxPadding ?? 10;
+  const background = boxBackgroundColor
+    ? ` background-color: ${boxBackgroundColor};`
+    : "";
+
+  return {
+    declarations: `border: ${boxBorderWidth ?? 2}px solid ${boxBorderColor || "#000000"}; padding: ${boxPaddingValue}px ${boxPaddingValue}px 0;${background}`,
+    // Empty means the box shows the table color through
+    backgroundColor: boxBackgroundColor,
+    spacingBelow: padding,
+  };
+}
+
+/**
+ * Headings inside a box take the box heading color and size over their own
+ * tier, and are aligned on their own.
+ */
+export function getBoxHeadingStyle(
+  {
+    boxHeadingColor,
+    boxHeadingFontSize,
+  }: Pick<ISIValues, "boxHeadingColor" | "boxHeadingFontSize">,
+  style: ResolvedTierStyle,
+): ResolvedTierStyle {
+  return {
+    ...style,
+    fontSize: boxHeadingFontSize ?? style.fontSize,
+    fontColor: boxHeadingColor || style.fontColor,
+  };
+}
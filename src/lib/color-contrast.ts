@@ -0,0 +1,184 @@
+import { getBoxHeadingStyle } from "./boxed-warning";
+import { defaultTableColor } from "./email-generator";
+import { collectLinks } from "./inline-markup";
+import { parseISI } from "./isi-parser";
+import type { ISIValues } from "./isi-schema";
+import { resolveTierStyle, styleTiers } from "./style-tiers";
+
+type ColorField =
+  | "fontColor"
+  | "bulletColor"
+  | "linkColor"
+  | "darkFontColor"
+  | "darkBulletColor";
+
+// The box background field carries the check of the body text in the box
+export type ContrastField =
+  | ColorField
+  | `tierStyles.${(typeof styleTiers)[number]}.fontColor`
+  | "boxHeadingColor"
+  | "boxBackgroundColor";
+
+export type ContrastCheck = {
+  ratio: number;
+  isAA: boolean;
+  isAAA: boolean;
+  background: "tableColor" | "darkTableColor" | "boxBackgroundColor";
+};
+
+export type ContrastChecks = Partial<Record<ContrastField, ContrastCheck>>;
+
+type ContrastPair = {
+  field: ContrastField;
+  color?: string;
+  background: ContrastCheck["background"];
+  fontSize: number;
+  isBold: boolean;
+};
+
+const hexColorPattern = /^#([a-f\d]{3}|[a-f\d]{6})$/i;
+
+function toRGB(hex: string) {
+  const digits = hex.slice(1);
+  const fullDigits =
+    digits.length === 3
+      ? digits
+          .split("")
+          .map((digit) => digit + digit)
+          .join("")
+      : digits;
+
+  return [0, 2, 4].map((start) =>
+    parseInt(fullDigits.slice(start, start + 2), 16),
+  );
+}
+
+// https://www.w3.org/TR/WCAG21/#dfn-relative-luminance
+function getLuminance(hex: string) {
+  const [red, green, blue] = toRGB(hex).map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+
+  return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+}
+
+/**
+ * WCAG contrast ratio between two hex colors, from 1 to 21. Returns null
+ * while either color isn't a valid hex color yet.
+ */
+export function getContrastRatio(foreground?: string, background?: string) {
+  if (!foreground || !background) return null;
+  if (!hexColorPattern.test(foreground) || !hexColorPattern.test(background))
+    return null;
+
+  const [lighter, darker] = [
+    getLuminance(foreground),
+    getLuminance(background),
+  ].sort((a, b) => b - a);
+
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// WCAG counts 18pt text, or 14pt bold text, as large (1pt = 4/3px)
+const isLargeText = (fontSize: number, isBold: boolean) =>
+  fontSize >= (isBold ? 18.66 : 24);
+
+/**
+ * Rates every foreground color against the background it sits on. Colors
+ * that can't be checked yet, dark-mode colors while dark mode is off and the
+ * link color while the ISI has no links are left out. Text style tiers are
+ * only checked when they have a color of their own, and the box colors only
+ * when the ISI has a boxed warning.
+ */
+export function getContrastChecks(values: Partial<ISIValues>) {
+  const fontSize = Number(values.fontSize) || 16;
+  const tableColor = values.tableColor || defaultTableColor;
+  const backgrounds = {
+    tableColor,
+    darkTableColor: values.darkTableColor,
+    // An empty box background shows the table color through
+    boxBackgroundColor: values.boxBackgroundColor || tableColor,
+  };
+  const rows = parseISI(values.ISI ?? "");
+
+  const getPair = (
+    field: ColorField,
+    background: ContrastCheck["background"],
+    isBold: boolean,
+  ): ContrastPair => ({
+    field,
+    color: values[field],
+    background,
+    fontSize,
+    isBold,
+  });
+
+  const pairs = [
+    getPair("fontColor", "tableColor", false),
+    getPair("bulletColor", "tableColor", true),
+  ];
+  if (rows.some(({ content }) => collectLinks(content).length > 0))
+    pairs.push(getPair("linkColor", "tableColor", false));
+  if (values.hasDarkMode) {
+    pairs.push(
+      getPair("darkFontColor", "darkTableColor", false),
+      getPair("darkBulletColor", "darkTableColor", true),
+    );
+  }
+
+  styleTiers.forEach((tier) => {
+    const color = values.tierStyles?.[tier]?.fontColor;
+    if (!color) return;
+
+    const style = resolveTierStyle({ ...values, fontSize }, tier);
+    pairs.push({
+      field: `tierStyles.${tier}.fontColor`,
+      color,
+      background: "tableColor",
+      fontSize: Number(style.fontSize) || fontSize,
+      isBold: style.isBold,
+    });
+  });
+
+  if (rows.some(({ box }) => box > 0)) {
+    const headingStyle = getBoxHeadingStyle(
+      values,
+      resolveTierStyle({ ...values, fontSize }, "heading"),
+    );
+    pairs.push({
+      field: "boxHeadingColor",
+      color: headingStyle.fontColor,
+      background: "boxBackgroundColor",
+      fontSize: Number(headingStyle.fontSize) || fontSize,
+      isBold: true,
+    });
+
+    if (values.boxBackgroundColor) {
+      pairs.push({
+        field: "boxBackgroundColor",
+        color: values.fontColor,
+        background: "boxBackgroundColor",
+        fontSize,
+        isBold: false,
+      });
+    }
+  }
+
+  const checks: ContrastChecks = {};
+
+  pairs.forEach(({ field, color, background, fontSize, isBold }) => {
+    const ratio = getContrastRatio(color, backgrounds[background]);
+    if (ratio === null) return;
+
+    const isLarge = isLargeText(fontSize, isBold);
+    checks[field] = {
+      ratio,
+      isAA: ratio >= (isLarge ? 3 : 4.5),
+      isAAA: ratio >= (isLarge ? 4.5 : 7),
+      background,
+    };
+  });
+
+  return checks;
+}
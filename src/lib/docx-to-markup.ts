@@ -0,0 +1,320 @@
+import { strFromU8, unzipSync } from "fflate";
+import {
+  escapeMarkup,
+  wrapMarkup,
+  writeMarkupLines,
+  type MarkupLine,
+} from "./markup-writer";
+
+const W = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const R = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+type Segment = {
+  text: string;
+  isBold: boolean;
+  isItalic: boolean;
+  isUnderline: boolean;
+  isSup: boolean;
+  href?: string;
+  isBreak?: boolean;
+};
+
+type DocxContext = {
+  links: Map<string, string>;
+  // numId -> list formats per indentation level
+  numbering: Map<string, string[]>;
+  warnings: Set<string>;
+};
+
+const parseXML = (xml: string) =>
+  new DOMParser().parseFromString(xml, "application/xml");
+
+const children = (element: Element, localName?: string) =>
+  Array.from(element.children).filter(
+    (child) =>
+      child.namespaceURI === W && (!localName || child.localName === localName),
+  );
+
+const child = (element: Element | undefined, localName: string) =>
+  element ? children(element, localName)[0] : undefined;
+
+const getVal = (element: Element | undefined) =>
+  element?.getAttributeNS(W, "val") ?? undefined;
+
+// <w:b/> is on, <w:b w:val="0"/> or "false" is explicitly off
+const isToggleOn = (element: Element | undefined) =>
+  !!element && !["0", "false", "none"].includes(getVal(element) ?? "");
+
+function readLinks(files: Record<string, Uint8Array>) {
+  const links = new Map<string, string>();
+  const rels = files["word/_rels/document.xml.rels"];
+  if (!rels) return links;
+
+  Array.from(parseXML(strFromU8(rels)).documentElement.children).forEach(
+    (relationship) => {
+      if (relationship.getAttribute("Type")?.endsWith("/hyperlink"))
+        links.set(
+          relationship.getAttribute("Id") ?? "",
+          relationship.getAttribute("Target") ?? "",
+        );
+    },
+  );
+
+  return links;
+}
+
+function readNumbering(files: Record<string, Uint8Array>) {
+  const numbering = new Map<string, string[]>();
+  const xml = files["word/numbering.xml"];
+  if (!xml) return numbering;
+
+  const root = parseXML(strFromU8(xml)).documentElement;
+  const abstractFormats = new Map<string, string[]>();
+
+  children(root, "abstractNum").forEach((abstractNum) => {
+    const formats: string[] = [];
+    children(abstractNum, "lvl").forEach((lvl) => {
+      formats[Number(lvl.getAttributeNS(W, "ilvl"))] =
+        getVal(child(lvl, "numFmt")) ?? "bullet";
+    });
+    abstractFormats.set(
+      abstractNum.getAttributeNS(W, "abstractNumId")!,
+      formats,
+    );
+  });
+
+  children(root, "num").forEach((num) => {
+    const abstractNumId = getVal(child(num, "abstractNumId"));
+    numbering.set(
+      num.getAttributeNS(W, "numId")!,
+      abstractFormats.get(abstractNumId ?? "") ?? [],
+    );
+  });
+
+  return numbering;
+}
+
+function readRunFormatting(run: Element, context: DocxContext) {
+  const properties = child(run, "rPr");
+  const vertAlign = getVal(child(properties, "vertAlign"));
+  const color = getVal(child(properties, "color"));
+
+  if (vertAlign === "subscript") context.warnings.add("Subscript text");
+  if (isToggleOn(child(properties, "strike")))
+    context.warnings.add("Strikethrough text");
+  if (child(properties, "highlight") || child(properties, "shd"))
+    context.warnings.add("Highlighted text");
+  if (color && !["auto", "000000"].includes(color.toLowerCase()))
+    context.warnings.add("Text colors");
+
+  return {
+    isBold: isToggleOn(child(properties, "b")),
+    isItalic: isToggleOn(child(properties, "i")),
+    isUnderline: isToggleOn(child(properties, "u")),
+    isSup: vertAlign === "superscript",
+  };
+}
+
+function readParagraphSegments(paragraph: Element, context: DocxContext) {
+  const segments: Segment[] = [];
+  // Hyperlinks inserted as fields live between fldChar begin/end runs
+  let fieldInstruction = "";
+  let fieldHref: string | undefined;
+
+  const readRun = (run: Element, href?: string) => {
+    const formatting = readRunFormatting(run, context);
+
+    children(run).forEach((content) => {
+      switch (content.localName) {
+        case "t":
+          segments.push({
+            text: content.textContent ?? "",
+            ...formatting,
+            href: href ?? fieldHref,
+          });
+          break;
+        case "tab":
+          segments.push({ text: " ", ...formatting, href: href ?? fieldHref });
+          break;
+        case "br":
+        case "cr":
+          segments.push({ text: "\n", ...formatting, isBreak: true });
+          break;
+        case "instrText":
+          fieldInstruction += content.textContent ?? "";
+          break;
+        case "fldChar": {
+          const type = content.getAttributeNS(W, "fldCharType");
+          if (type === "begin") fieldInstruction = "";
+          if (type === "separate")
+            fieldHref = fieldInstruction.match(/HYPERLINK\s+"([^"]+)"/)?.[1];
+          if (type === "end") fieldHref = undefined;
+          break;
+        }
+        case "drawing":
+        case "pict":
+        case "object":
+          context.warnings.add("Images and embedded objects");
+          break;
+        case "footnoteReference":
+        case "endnoteReference":
+          context.warnings.add("Footnote and endnote references");
+          break;
+        case "sym":
+          context.warnings.add("Symbol font characters");
+          break;
+      }
+    });
+  };
+
+  const readContainer = (container: Element, href?: string) => {
+    children(container).forEach((element) => {
+      switch (element.localName) {
+        case "r":
+          readRun(element, href);
+          break;
+        case "hyperlink": {
+          const id = element.getAttributeNS(R, "id");
+          const target = id ? context.links.get(id) : undefined;
+          if (!target) context.warnings.add("Links to places in the document");
+          readContainer(element, target);
+          break;
+        }
+        // Tracked insertions, content controls, smart tags and simple
+        // fields just wrap ordinary runs
+        case "ins":
+        case "sdt":
+        case "sdtContent":
+        case "smartTag":
+        case "fldSimple":
+          readContainer(element, href);
+          break;
+        case "del":
+          context.warnings.add("Tracked deletions (left out)");
+          break;
+      }
+    });
+  };
+
+  readContainer(paragraph);
+  return segments;
+}
+
+const isSameFormatting = (a: Segment, b: Segment) =>
+  !a.isBreak &&
+  !b.isBreak &&
+  a.isBold === b.isBold &&
+  a.isItalic === b.isItalic &&
+  a.isUnderline === b.isUnderline &&
+  a.isSup === b.isSup &&
+  a.href === b.href;
+
+function writeSegments(segments: Segment[]) {
+  // Word splits text into runs all the time (spell checking, revisions), so
+  // neighbours with the same formatting are merged before adding markers
+  const merged = segments.reduce<Segment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && isSameFormatting(last, segment)) last.text += segment.text;
+    else merged.push({ ...segment });
+    return merged;
+  }, []);
+
+  return merged
+    .map((segment) => {
+      if (segment.isBreak) return "\n";
+
+      let text = escapeMarkup(segment.text);
+      if (segment.isSup) text = wrapMarkup(text, "^");
+      if (segment.isUnderline && !segment.href) text = wrapMarkup(text, "__");
+      if (segment.isItalic) text = wrapMarkup(text, "_");
+      if (segment.isBold) text = wrapMarkup(text, "**");
+      if (segment.href) text = wrapMarkup(text, "[", `](${segment.href})`);
+      return text;
+    })
+    .join("");
+}
+
+function readParagraph(
+  paragraph: Element,
+  context: DocxContext,
+  lines: MarkupLine[],
+) {
+  const properties = child(paragraph, "pPr");
+  const style = getVal(child(properties, "pStyle")) ?? "";
+  const numberingProperties = child(properties, "numPr");
+  const numId = getVal(child(numberingProperties, "numId"));
+  const level = Number(getVal(child(numberingProperties, "ilvl")) ?? 0);
+
+  const isHeading = /^(heading\d|title|subtitle)$/i.test(style);
+  const isListItem = !!numId && numId !== "0";
+
+  writeSegments(readParagraphSegments(paragraph, context))
+    .split("\n")
+    .map((text) => text.trim())
+    .filter(Boolean)
+    .forEach((text, index) => {
+      if (isListItem && index === 0) {
+        const format = context.numbering.get(numId)?.[level] ?? "bullet";
+        lines.push({
+          text,
+          marker: ["bullet", "none"].includes(format) ? "-" : "1.",
+          level,
+        });
+        return;
+      }
+
+      lines.push({ text: isHeading ? wrapMarkup(text, "**") : text, level: 0 });
+    });
+}
+
+function readBlocks(
+  container: Element,
+  context: DocxContext,
+  lines: MarkupLine[],
+) {
+  children(container).forEach((element) => {
+    switch (element.localName) {
+      case "p":
+        readParagraph(element, context, lines);
+        break;
+      case "tbl":
+        context.warnings.add("Tables (flattened into separate lines)");
+        children(element, "tr").forEach((row) =>
+          children(row, "tc").forEach((cell) =>
+            readBlocks(cell, context, lines),
+          ),
+        );
+        break;
+      case "sdt":
+      case "sdtContent":
+        readBlocks(element, context, lines);
+        break;
+    }
+  });
+}
+
+/**
+ * Reads a .docx entirely in the browser and converts its paragraphs, runs,
+ * lists and hyperlinks into ISI markup. Formatting without a markup
+ * equivalent is reported back instead of being silently lost.
+ */
+export function convertDocxToMarkup(buffer: ArrayBuffer) {
+  const files = unzipSync(new Uint8Array(buffer));
+  const documentXML = files["word/document.xml"];
+  if (!documentXML) throw new Error("This file isn't a valid Word document");
+
+  const context: DocxContext = {
+    links: readLinks(files),
+    numbering: readNumbering(files),
+    warnings: new Set(),
+  };
+
+  const body = child(parseXML(strFromU8(documentXML)).documentElement, "body");
+  const lines: MarkupLine[] = [];
+  if (body) readBlocks(body, context, lines);
+
+  return {
+    markup: writeMarkupLines(lines),
+    warnings: Array.from(context.warnings),
+  };
+}
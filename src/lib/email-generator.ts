@@ -0,0 +1,365 @@
+import {
+  getBoxHeadingStyle,
+  getBoxStyle,
+  splitBoxedSections,
+} from "./boxed-warning";
+import { renderInlineHTML } from "./inline-markup";
+import { isBoldRow, parseISI, type ISIRow } from "./isi-parser";
+import { getListMarker } from "./list-markers";
+import {
+  getEmailWebFontBlock,
+  getFontStack,
+  getMSOFontBlock,
+} from "./font-stacks";
+import type { ISIValues } from "./isi-schema";
+import {
+  getLetterSpacingStyle,
+  getRowTier,
+  resolveTierStyle,
+  type ResolvedTierStyle,
+  type StyleTier,
+  type TierStyle,
+} from "./style-tiers";
+
+export const headingTags = ["none", "h2", "h3", "h4"] as const;
+
+export const defaultTableColor = "#FFFFFE";
+
+// Headings carry their own inline styles, so overrides need to reach them
+const getTextSelectors = (className: string) => [
+  `td.${className}`,
+  ...headingTags.slice(1).map((tag) => `td.${className} ${tag}`),
+];
+
+const textSelectors = getTextSelectors("isi-text");
+
+const toRule = (selectors: string[], declarations: string, prefix = "") =>
+  `${selectors.map((selector) => prefix + selector).join(", ")} { ${declarations} }`;
+
+type ResponsiveOptions = Pick<
+  ISIValues,
+  | "mobileBreakpoint"
+  | "mobileGutterWidth"
+  | "mobileFontSize"
+  | "mobileLineHeight"
+  | "tierStyles"
+>;
+
+// Clients without media query support simply keep the desktop layout
+function getResponsiveStyle({
+  mobileBreakpoint = 480,
+  mobileGutterWidth,
+  mobileFontSize,
+  mobileLineHeight,
+  tierStyles,
+}: ResponsiveOptions) {
+  const getTextRules = (fontSize?: number, lineHeight?: number) =>
+    [
+      fontSize && `font-size: ${fontSize}px !important;`,
+      lineHeight && `line-height: ${lineHeight}px !important;`,
+    ].filter(Boolean);
+
+  const textRules = getTextRules(mobileFontSize, mobileLineHeight);
+  // Headings with a size of their own keep it instead of shrinking to the
+  // mobile body size
+  const headingRules = (["heading", "subhead"] as const).map((tier) => {
+    const style: TierStyle = tierStyles?.[tier] ?? {};
+    const rules = textRules.length
+      ? getTextRules(style.fontSize, style.lineHeight)
+      : [];
+
+    return (
+      rules.length > 0 &&
+      toRule(getTextSelectors(`isi-${tier}`), rules.join(" "))
+    );
+  });
+
+  const rules = [
+    `table.wrapper { width: 100% !important; min-width: 0 !important; }`,
+    mobileGutterWidth !== undefined &&
+      `td.gutter { width: ${mobileGutterWidth}px !important; }`,
+    textRules.length > 0 && toRule(textSelectors, textRules.join(" ")),
+    ...headingRules,
+  ].filter(Boolean);
+
+  return `<style type="text/css">\n\t@media only screen and (max-width: ${mobileBreakpoint}px) {\n\t\t${rules.join("\n\t\t")}\n\t}\n</style>\n`;
+}
+
+type DarkModeOptions = Pick<
+  ISIValues,
+  "darkFontColor" | "darkTableColor" | "darkBulletColor"
+>;
+
+// Apple Mail and iOS follow prefers-color-scheme, while Outlook.com marks
+// the body with data-ogsc/data-ogsb when it recolors text and backgrounds
+function getDarkModeStyle({
+  darkFontColor,
+  darkTableColor,
+  darkBulletColor,
+}: DarkModeOptions) {
+  const rules = (backgroundPrefix = "", colorPrefix = "") =>
+    [
+      darkTableColor &&
+        toRule(
+          ["table.wrapper", "td.isi-box"],
+          `background-color: ${darkTableColor} !important;`,
+          backgroundPrefix,
+        ),
+      darkFontColor &&
+        toRule(
+          textSelectors,
+          `color: ${darkFontColor} !important;`,
+          colorPrefix,
+        ),
+      darkFontColor &&
+        toRule(
+          ["td.isi-box"],
+          `border-color: ${darkFontColor} !important;`,
+          colorPrefix,
+        ),
+      // Comes after the text rule so it wins on marker cells, which have both
+      darkBulletColor &&
+        toRule(
+          ["td.isi-bullet"],
+          `color: ${darkBulletColor} !important;`,
+          colorPrefix,
+        ),
+    ].filter(Boolean);
+
+  const mediaRules = rules();
+  const outlookRules = rules("[data-ogsb] ", "[data-ogsc] ");
+
+  return `<meta name="color-scheme" content="light dark">\n<meta name="supported-color-schemes" content="light dark">\n<style type="text/css">\n\t:root { color-scheme: light dark; supported-color-schemes: light dark; }\n\t@media (prefers-color-scheme: dark) {\n\t\t${mediaRules.join("\n\t\t")}\n\t}\n\t${outlookRules.join("\n\t")}\n</style>\n`;
+}
+
+export function generateEmailISI({
+  padding,
+  fontSize,
+  fontColor,
+  tableColor,
+  lineHeight,
+  fontFamily,
+  customFontFamily,
+  webFontName,
+  webFontUrl,
+  gutterWidth,
+  ISI,
+  bulletColor,
+  linkColor,
+  underlineLinks,
+  openLinksInNewTab,
+  entityStyle,
+  preservedCharacters,
+  tableWidth,
+  isResponsive,
+  mobileBreakpoint,
+  mobileGutterWidth,
+  mobileFontSize,
+  mobileLineHeight,
+  isOutlookSafe,
+  hasDarkMode,
+  darkFontColor,
+  darkTableColor,
+  darkBulletColor,
+  isAccessible,
+  headingTag = "none",
+  lang,
+  tierStyles,
+  boxBorderColor,
+  boxBorderWidth,
+  boxPadding,
+  boxBackgroundColor,
+  boxHeadingColor,
+  boxHeadingFontSize,
+  boxHeadingAlign = "center",
+}: ISIValues) {
+  const inlineOptions = {
+    linkColor,
+    underlineLinks,
+    openLinksInNewTab,
+    entityStyle,
+    preservedCharacters,
+  };
+
+  const fontOptions = { fontFamily, customFontFamily, webFontName, webFontUrl };
+  const fontStack = getFontStack(fontOptions);
+
+  const tierOptions = { fontSize, lineHeight, fontColor, padding, tierStyles };
+  const boxStyle = getBoxStyle({
+    padding,
+    boxBorderColor,
+    boxBorderWidth,
+    boxPadding,
+    boxBackgroundColor,
+  });
+
+  // Cells get classes only when there is a stylesheet to target them
+  const hasStylesheet = isResponsive || hasDarkMode;
+  const getTextClass = (tier: StyleTier) => {
+    if (!hasStylesheet) return "";
+    const isHeading = tier === "heading" || tier === "subhead";
+    return ` class="isi-text${isHeading ? ` isi-${tier}` : ""}"`;
+  };
+  const bulletClasses = [
+    hasStylesheet && "isi-text",
+    hasDarkMode && "isi-bullet",
+  ].filter(Boolean);
+  const bulletClass = bulletClasses.length
+    ? ` class="${bulletClasses.join(" ")}"`
+    : "";
+
+  // Screen readers announce tables without a role as data tables. The role
+  // changes nothing else, so like on the wrapper it's always there.
+  const tableRole = ' role="presentation"';
+
+  // Outlook desktop ignores padding on some cells, so it gets spacer rows
+  // instead. Everything extra is either mso-only CSS or hidden from other
+  // clients by conditional comments.
+  const msoStyle = isOutlookSafe
+    ? " mso-line-height-rule: exactly; mso-padding-alt: 0;"
+    : "";
+
+  const getCommonStyle = (isBold: boolean, style: ResolvedTierStyle) =>
+    `font-family: ${fontStack}; font-size: ${style.fontSize}px; line-height: ${style.lineHeight}px; color: ${style.fontColor};${getLetterSpacingStyle(style.letterSpacing)} padding-bottom: ${style.padding}px; font-weight: ${isBold ? "bold;" : "normal;"}${msoStyle}`;
+
+  const generateSpacerRow = (
+    indent: string,
+    spacing: number | undefined,
+    colspan = 1,
+  ) =>
+    isOutlookSafe && spacing
+      ? `${indent}<!--[if mso]><tr><td${colspan > 1 ? ` colspan="${colspan}"` : ""} height="${spacing}" style="font-size: ${spacing}px; line-height: ${spacing}px; mso-line-height-rule: exactly;">&nbsp;</td></tr><![endif]-->`
+      : "";
+
+  // Subheads go one level below the chosen heading element
+  const getHeadingTag = (headingLevel: number) =>
+    headingLevel === 2
+      ? `h${Math.min(Number(headingTag.slice(1)) + 1, 6)}`
+      : headingTag;
+
+  // Headings keep the look of the bold row, so every style a client may
+  // add to them by default is reset
+  const generateHeading = (
+    text: string,
+    tag: string,
+    style: ResolvedTierStyle,
+  ) =>
+    `<${tag} style="margin: 0; padding: 0; font-family: ${fontStack}; font-size: ${style.fontSize}px; line-height: ${style.lineHeight}px; color: ${style.fontColor};${getLetterSpacingStyle(style.letterSpacing)} font-weight: bold;${msoStyle}">${text}</${tag}>`;
+
+  const generateRow = (row: ISIRow, indent: string) => {
+    const tier = getRowTier(row);
+    const isBoxHeading = row.box > 0 && row.headingLevel > 0;
+    const tierStyle = resolveTierStyle(tierOptions, tier);
+    const style = isBoxHeading
+      ? getBoxHeadingStyle({ boxHeadingColor, boxHeadingFontSize }, tierStyle)
+      : tierStyle;
+    const align = isBoxHeading ? boxHeadingAlign : "left";
+    const text = renderInlineHTML(row.content, inlineOptions);
+    const isHeading = isAccessible && headingTag !== "none" && isBoldRow(row);
+
+    return `${indent}<tr>${indent}\t<td align="${align}"${getTextClass(tier)} style="${getCommonStyle(row.isBold || style.isBold, style)}${align === "left" ? "" : ` text-align: ${align};`}">${indent}\t\t${isHeading ? generateHeading(text, getHeadingTag(row.headingLevel), style) : text}${indent}\t</td>${indent}</tr>${generateSpacerRow(indent, style.padding)}`;
+  };
+
+  // Sub-lists are nested inside the text column of their parent item, so
+  // every level is indented by the marker cells of the levels above it
+  const generateListItem = (
+    { content, level, isOrdered, index }: ISIRow,
+    children: string,
+    indent: string,
+  ) => {
+    const { glyph, width } = getListMarker(level, isOrdered, index);
+    const style = resolveTierStyle(tierOptions, "bullet");
+    const text = renderInlineHTML(content, inlineOptions);
+    const childRow = children
+      ? `${indent}\t\t\t<tr>${indent}\t\t\t\t<td></td>${indent}\t\t\t\t<td>${indent}\t\t\t\t\t<table cellpadding="0" cellspacing="0" border="0" width="100%"${tableRole}>${children}${indent}\t\t\t\t\t</table>${indent}\t\t\t\t</td>${indent}\t\t\t</tr>`
+      : "";
+
+    // Bullets are decoration, but numbers carry meaning and stay readable
+    const ariaHidden = isAccessible && !isOrdered ? ' aria-hidden="true"' : "";
+
+    return `${indent}<tr>${indent}\t<td>${indent}\t\t<table cellpadding="0" cellspacing="0" border="0" width="100%"${tableRole}>${indent}\t\t\t<tr>${indent}\t\t\t\t<td width="${width}" valign="top" align="left"${bulletClass}${ariaHidden} style="font-family: ${fontStack}; font-size: ${style.fontSize}px; line-height: ${style.lineHeight}px; color: ${bulletColor}; padding-bottom: ${style.padding}px; font-weight: bold;${msoStyle}">${glyph}</td>${indent}\t\t\t\t<td valign="top" align="left"${getTextClass("bullet")} style="${getCommonStyle(false, style)}">${text}</td>${indent}\t\t\t</tr>${generateSpacerRow(`${indent}\t\t\t`, style.padding, 2)}${childRow}${indent}\t\t</table>${indent}\t</td>${indent}</tr>`;
+  };
+
+  const generateRows = (rows: ISIRow[], indent: string): string => {
+    let generatedRows = "";
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+
+      if (!row.isBullet) {
+        generatedRows += generateRow(row, indent);
+        continue;
+      }
+
+      let end = i + 1;
+      while (
+        end < rows.length &&
+        rows[end].isBullet &&
+        rows[end].level > row.level
+      )
+        end++;
+
+      const children = generateRows(
+        rows.slice(i + 1, end),
+        `${indent}\t\t\t\t\t\t`,
+      );
+      generatedRows += generateListItem(row, children, indent);
+      i = end - 1;
+    }
+
+    return generatedRows;
+  };
+
+  // Like every other row, the spacing below the box is a spacer row in
+  // Outlook instead of padding
+  const generateBox = (rows: ISIRow[], indent: string) => {
+    const boxClass = hasDarkMode ? ' class="isi-box"' : "";
+    const bgcolor = boxStyle.backgroundColor
+      ? ` bgcolor="${boxStyle.backgroundColor}"`
+      : "";
+    const boxRows = generateRows(rows, `${indent}\t\t\t\t\t\t`);
+
+    return `${indent}<tr>${indent}\t<td style="padding-bottom: ${boxStyle.spacingBelow}px;${msoStyle}">${indent}\t\t<table cellpadding="0" cellspacing="0" border="0" width="100%"${tableRole}>${indent}\t\t\t<tr>${indent}\t\t\t\t<td${boxClass}${bgcolor} style="${boxStyle.declarations}">${indent}\t\t\t\t\t<table cellpadding="0" cellspacing="0" border="0" width="100%"${tableRole}>${boxRows}${indent}\t\t\t\t\t</table>${indent}\t\t\t\t</td>${indent}\t\t\t</tr>${indent}\t\t</table>${indent}\t</td>${indent}</tr>${generateSpacerRow(indent, boxStyle.spacingBelow)}`;
+  };
+
+  const generatedISIRows = splitBoxedSections(parseISI(ISI))
+    .map(({ box, rows }) =>
+      box > 0
+        ? generateBox(rows, "\n\t\t\t\t")
+        : generateRows(rows, "\n\t\t\t\t"),
+    )
+    .join("");
+
+  const gutterWidthValue = gutterWidth ? gutterWidth : "30px";
+  const tableColorValue = tableColor ? tableColor : defaultTableColor;
+  const tableWidthValue = tableWidth ? tableWidth : 600;
+
+  const responsiveStyle = isResponsive
+    ? getResponsiveStyle({
+        mobileBreakpoint,
+        mobileGutterWidth,
+        mobileFontSize,
+        mobileLineHeight,
+        tierStyles,
+      })
+    : "";
+
+  const darkModeStyle = hasDarkMode
+    ? getDarkModeStyle({ darkFontColor, darkTableColor, darkBulletColor })
+    : "";
+
+  const fontBlock =
+    getEmailWebFontBlock(fontOptions) ||
+    (isOutlookSafe ? getMSOFontBlock(fontOptions) : "");
+
+  // Outlook ignores min-width, so a fixed-width ghost table pins the
+  // wrapper to the table width there
+  const ghostTableStart = isOutlookSafe
+    ? `<!--[if mso]>\n<table cellpadding="0" cellspacing="0" border="0" width="${tableWidthValue}" role="presentation" align="center"><tr><td>\n<![endif]-->\n`
+    : "";
+  const ghostTableEnd = isOutlookSafe
+    ? `\n<!--[if mso]>\n</td></tr></table>\n<![endif]-->`
+    : "";
+
+  return `${fontBlock}${darkModeStyle}${responsiveStyle}${ghostTableStart}<table cellpadding="0" cellspacing="0" border="0" width="${tableWidthValue}" style="min-width: ${tableWidthValue}px;" class="wrapper" role="presentation"${isAccessible && lang ? ` lang="${lang}"` : ""} bgcolor="${tableColorValue}">\n\t<tr>\n\t\t<td width="${gutterWidthValue}" class="gutter">&nbsp;</td>\n\t\t<td>\n\t\t\t<table cellpadding="0" cellspacing="0" border="0" width="100%"${tableRole}>${generatedISIRows}\n\t\t\t</table>\n\t\t</td>\n\t\t<td width="${gutterWidthValue}" class="gutter">&nbsp;</td>\n\t</tr>\n</table>${ghostTableEnd}`;
+}
@@ -0,0 +1,164 @@
+export type LintSeverity = "error" | "warning";
+
+export type LintIssue = {
+  severity: LintSeverity;
+  rule: string;
+  message: string;
+  // 1-based line in the generated code
+  line: number;
+};
+
+type CSSRule = {
+  property: string;
+  // Only values matching this are flagged, any value when it's missing
+  value?: RegExp;
+  clients: string;
+};
+
+// Support data follows caniemail.com for Gmail, Outlook and Yahoo
+const unsupportedCSS: CSSRule[] = [
+  { property: "position", clients: "Gmail, Outlook, Yahoo" },
+  { property: "float", clients: "Outlook" },
+  { property: "display", value: /flex|grid/, clients: "Gmail, Outlook" },
+  { property: "transform", clients: "Gmail, Outlook" },
+  { property: "box-shadow", clients: "Gmail, Outlook" },
+  { property: "border-radius", clients: "Outlook" },
+  { property: "background-image", clients: "Outlook" },
+  { property: "max-width", clients: "Outlook" },
+  { property: "opacity", clients: "Outlook" },
+];
+
+const unsupportedCSSValues: { pattern: RegExp; message: string }[] = [
+  {
+    pattern: /var\(--/,
+    message: "CSS variables aren't supported in Gmail and Outlook.",
+  },
+  { pattern: /calc\(/, message: "calc() isn't supported in Outlook." },
+];
+
+// Gmail clips messages whose HTML is bigger than about 102KB, and the ISI
+// is only part of the email
+const gmailClipBytes = 102 * 1024;
+const gmailWarningBytes = 75 * 1024;
+
+const getLine = (code: string, index: number) =>
+  code.slice(0, index).split("\n").length;
+
+function lintTables(code: string, issues: LintIssue[]) {
+  for (const match of code.matchAll(/<table\b[^>]*>/gi)) {
+    if (/role="presentation"/i.test(match[0])) continue;
+
+    issues.push({
+      severity: "warning",
+      rule: "table-role",
+      message:
+        'Layout table without role="presentation", so screen readers announce it as a data table.',
+      line: getLine(code, match.index),
+    });
+  }
+}
+
+function lintDeclarations(
+  declarations: string,
+  line: number,
+  issues: LintIssue[],
+) {
+  declarations.split(";").forEach((declaration) => {
+    const [property, ...value] = declaration.split(":");
+    const name = property?.trim().toLowerCase();
+    const rule = unsupportedCSS.find(
+      (rule) =>
+        rule.property === name &&
+        (!rule.value || rule.value.test(value.join(":"))),
+    );
+
+    if (rule) {
+      issues.push({
+        severity: "warning",
+        rule: "unsupported-css",
+        message: `"${declaration.trim()}" isn't supported in ${rule.clients}.`,
+        line,
+      });
+    }
+  });
+
+  unsupportedCSSValues.forEach(({ pattern, message }) => {
+    if (pattern.test(declarations))
+      issues.push({
+        severity: "warning",
+        rule: "unsupported-css",
+        message,
+        line,
+      });
+  });
+}
+
+function lintCSS(code: string, issues: LintIssue[]) {
+  for (const match of code.matchAll(/style="([^"]*)"/gi))
+    lintDeclarations(match[1], getLine(code, match.index), issues);
+
+  for (const match of code.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style>/gi)) {
+    const blockStart = match.index + match[0].indexOf(">") + 1;
+
+    for (const rule of match[1].matchAll(/\{([^{}]*)\}/g)) {
+      lintDeclarations(rule[1], getLine(code, blockStart + rule.index), issues);
+    }
+  }
+}
+
+function lintTags(code: string, issues: LintIssue[]) {
+  for (const match of code.matchAll(/<script\b/gi)) {
+    issues.push({
+      severity: "error",
+      rule: "script",
+      message: "Email clients strip scripts, and some flag them as spam.",
+      line: getLine(code, match.index),
+    });
+  }
+
+  for (const match of code.matchAll(/<link\b[^>]*rel="stylesheet"/gi)) {
+    issues.push({
+      severity: "warning",
+      rule: "linked-stylesheet",
+      message:
+        "Linked stylesheets are ignored by Gmail and Outlook, so the web font only loads in some clients.",
+      line: getLine(code, match.index),
+    });
+  }
+}
+
+function lintSize(code: string, issues: LintIssue[]) {
+  const bytes = new TextEncoder().encode(code).length;
+  const size = `${(bytes / 1024).toFixed(1)}KB`;
+
+  if (bytes > gmailClipBytes) {
+    issues.push({
+      severity: "error",
+      rule: "gmail-clipping",
+      message: `The ISI alone is ${size}, so Gmail will clip the message at about 102KB.`,
+      line: 1,
+    });
+  } else if (bytes > gmailWarningBytes) {
+    issues.push({
+      severity: "warning",
+      rule: "gmail-clipping",
+      message: `The ISI is ${size}, which leaves little room for the rest of the email before Gmail clips it at about 102KB.`,
+      line: 1,
+    });
+  }
+}
+
+/**
+ * Checks generated email HTML against a built-in set of compatibility
+ * rules. Issues are sorted by line so they read top to bottom.
+ */
+export function lintEmailHTML(code: string) {
+  const issues: LintIssue[] = [];
+
+  lintSize(code, issues);
+  lintTables(code, issues);
+  lintCSS(code, issues);
+  lintTags(code, issues);
+
+  return issues.sort((a, b) => a.line - b.line);
+}
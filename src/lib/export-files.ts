@@ -0,0 +1,61 @@
+import { strToU8, zipSync } from "fflate";
+import { toFileName } from "./download";
+import type { ISIValues } from "./isi-schema";
+import { toSettings } from "./presets";
+
+/**
+ * Every exported file starts with the brand and job code, so files from
+ * different jobs never overwrite each other in a downloads folder.
+ */
+export function getExportName({ brandName, jobCode }: ISIValues) {
+  const name = [brandName, jobCode, "isi"]
+    .filter((part) => part?.trim())
+    .join(" ");
+  return toFileName(name);
+}
+
+export const getCodeExtension = ({ outputFormat }: ISIValues) =>
+  outputFormat === "mjml" ? "mjml" : "html";
+
+export function toStandaloneDocument(html: string, values: ISIValues) {
+  const title = [values.brandName, "Important Safety Information"]
+    .filter((part) => part?.trim())
+    .join(" ")
+    .replace(/[<>&]/g, "");
+
+  return `<!DOCTYPE html>\n<html lang="${values.lang || "en"}">\n<head>\n\t<meta charset="utf-8">\n\t<meta name="viewport" content="width=device-width, initial-scale=1">\n\t<meta http-equiv="X-UA-Compatible" content="IE=edge">\n\t<title>${title}</title>\n</head>\n<body style="margin: 0; padding: 0;">\n${html}\n</body>\n</html>\n`;
+}
+
+/**
+ * Zips the HTML, the MJML when that is the output format, the plain-text
+ * version, the settings and the source text. The settings file holds what a
+ * preset would.
+ */
+export function createExportBundle({
+  code,
+  html,
+  text,
+  values,
+}: {
+  // The generated code as shown, HTML or MJML
+  code: string;
+  // HTML even when the generated code is MJML
+  html: string;
+  text: string;
+  values: ISIValues;
+}) {
+  const name = getExportName(values);
+  const files: Record<string, Uint8Array> = {
+    [`${name}.html`]: strToU8(html),
+    [`${name}.settings.json`]: strToU8(
+      JSON.stringify(toSettings(values), null, 2),
+    ),
+    [`${name}.source.txt`]: strToU8(values.ISI),
+  };
+  if (getCodeExtension(values) === "mjml")
+    files[`${name}.mjml`] = strToU8(code);
+  // Banners have no plain-text version
+  if (text) files[`${name}.txt`] = strToU8(text);
+
+  return zipSync(files);
+}
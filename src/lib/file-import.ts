@@ -0,0 +1,28 @@
+import { convertDocxToMarkup } from "./docx-to-markup";
+import { convertMarkdownToMarkup } from "./markdown-to-markup";
+
+export const importableExtensions = [".docx", ".txt", ".md", ".markdown"];
+
+export type ImportResult = {
+  markup: string;
+  // Formatting found in the file that has no ISI markup equivalent
+  warnings: string[];
+};
+
+export async function importISIFile(file: File): Promise<ImportResult> {
+  const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+
+  switch (extension) {
+    case ".docx":
+      return convertDocxToMarkup(await file.arrayBuffer());
+    case ".md":
+    case ".markdown":
+      return convertMarkdownToMarkup(await file.text());
+    case ".txt":
+      return { markup: await file.text(), warnings: [] };
+    default:
+      throw new Error(
+        `Only ${importableExtensions.join(", ")} files can be imported`,
+      );
+  }
+}
@@ -0,0 +1,110 @@
+export const fontFamilies = [
+  "arial",
+  "helvetica",
+  "verdana",
+  "tahoma",
+  "trebuchet",
+  "georgia",
+  "times",
+  "courier",
+  "custom",
+] as const;
+
+export type FontFamily = (typeof fontFamilies)[number];
+
+export const fontStacks: Record<
+  Exclude<FontFamily, "custom">,
+  { label: string; stack: string }
+> = {
+  arial: { label: "Arial", stack: "Arial, Helvetica, sans-serif" },
+  helvetica: { label: "Helvetica", stack: "Helvetica, Arial, sans-serif" },
+  verdana: { label: "Verdana", stack: "Verdana, Geneva, sans-serif" },
+  tahoma: { label: "Tahoma", stack: "Tahoma, Verdana, Segoe, sans-serif" },
+  trebuchet: {
+    label: "Trebuchet MS",
+    stack: "'Trebuchet MS', Helvetica, sans-serif",
+  },
+  georgia: {
+    label: "Georgia",
+    stack: "Georgia, Times, 'Times New Roman', serif",
+  },
+  times: { label: "Times New Roman", stack: "'Times New Roman', Times, serif" },
+  courier: { label: "Courier New", stack: "'Courier New', Courier, monospace" },
+};
+
+type FontOptions = {
+  fontFamily?: FontFamily;
+  customFontFamily?: string;
+  webFontName?: string;
+  webFontUrl?: string;
+};
+
+const defaultStack = fontStacks.arial.stack;
+
+const quoteFontName = (name: string) =>
+  /^[\w-]+$/.test(name) ? name : `'${name.replace(/'/g, "")}'`;
+
+/**
+ * The email-safe stack picked in the form, without the web font. This is
+ * also what Outlook gets, since it ignores web fonts altogether.
+ */
+export function getFallbackFontStack({
+  fontFamily = "arial",
+  customFontFamily,
+}: FontOptions) {
+  if (fontFamily === "custom") return customFontFamily?.trim() || defaultStack;
+  return fontStacks[fontFamily].stack;
+}
+
+export function getFontStack(options: FontOptions) {
+  const fallbackStack = getFallbackFontStack(options);
+  const webFontName = options.webFontUrl && options.webFontName?.trim();
+
+  return webFontName
+    ? `${quoteFontName(webFontName)}, ${fallbackStack}`
+    : fallbackStack;
+}
+
+const fontFormats: Record<string, string> = {
+  woff2: "woff2",
+  woff: "woff",
+  ttf: "truetype",
+  otf: "opentype",
+};
+
+/**
+ * Loads the web font, if one is set. A font file gets an @font-face rule,
+ * anything else (e.g. a Google Fonts URL) is linked as a stylesheet.
+ */
+export function getWebFontMarkup({ webFontName, webFontUrl }: FontOptions) {
+  if (!webFontUrl || !webFontName?.trim()) return "";
+
+  const extension = webFontUrl.split(/[?#]/)[0].split(".").pop() ?? "";
+  const format = fontFormats[extension.toLowerCase()];
+
+  return format
+    ? `<style type="text/css">\n\t@font-face { font-family: ${quoteFontName(webFontName.trim())}; src: url('${webFontUrl}') format('${format}'); font-style: normal; font-weight: normal; }\n</style>`
+    : `<link href="${webFontUrl}" rel="stylesheet" type="text/css">`;
+}
+
+/**
+ * Forces the email-safe stack in Outlook desktop, which otherwise falls back
+ * to Times New Roman whenever it doesn't know the first font of a stack.
+ */
+export function getMSOFontBlock(options: FontOptions) {
+  const fallbackStack = getFallbackFontStack(options);
+
+  return `<!--[if mso]>\n<style type="text/css">\n\ttable, td, span, a { font-family: ${fallbackStack} !important; }\n</style>\n<![endif]-->\n`;
+}
+
+/**
+ * Outlook skips the web font and falls back to Times New Roman instead of
+ * the next font in the stack, so the font is hidden from Outlook and it
+ * gets the email-safe stack forced instead.
+ */
+export function getEmailWebFontBlock(options: FontOptions) {
+  const webFontMarkup = getWebFontMarkup(options);
+  if (!webFontMarkup) return "";
+
+  return `<!--[if !mso]><!-->\n${webFontMarkup}\n<!--<![endif]-->\n${getMSOFontBlock(options)}`;
+}
@@ -0,0 +1,166 @@
+export const entityStyles = ["named", "decimal", "hex"] as const;
+
+export type EntityStyle = (typeof entityStyles)[number];
+
+export type EntityOptions = {
+  entityStyle?: EntityStyle;
+  preservedCharacters?: string;
+};
+
+const namedEntities: Record<string, string> = {
+  "&": "amp",
+  "<": "lt",
+  ">": "gt",
+  '"': "quot",
+  "\u00A0": "nbsp",
+  "¡": "iexcl",
+  "¢": "cent",
+  "£": "pound",
+  "¥": "yen",
+  "§": "sect",
+  "©": "copy",
+  "«": "laquo",
+  "®": "reg",
+  "°": "deg",
+  "±": "plusmn",
+  "²": "sup2",
+  "³": "sup3",
+  µ: "micro",
+  "¶": "para",
+  "·": "middot",
+  "¹": "sup1",
+  "»": "raquo",
+  "¼": "frac14",
+  "½": "frac12",
+  "¾": "frac34",
+  "¿": "iquest",
+  À: "Agrave",
+  Á: "Aacute",
+  Â: "Acirc",
+  Ã: "Atilde",
+  Ä: "Auml",
+  Ç: "Ccedil",
+  È: "Egrave",
+  É: "Eacute",
+  Ê: "Ecirc",
+  Í: "Iacute",
+  Ñ: "Ntilde",
+  Ó: "Oacute",
+  Ô: "Ocirc",
+  Õ: "Otilde",
+  Ö: "Ouml",
+  "×": "times",
+  Ú: "Uacute",
+  Ü: "Uuml",
+  ß: "szlig",
+  à: "agrave",
+  á: "aacute",
+  â: "acirc",
+  ã: "atilde",
+  ä: "auml",
+  ç: "ccedil",
+  è: "egrave",
+  é: "eacute",
+  ê: "ecirc",
+  ë: "euml",
+  í: "iacute",
+  ï: "iuml",
+  ñ: "ntilde",
+  ó: "oacute",
+  ô: "ocirc",
+  õ: "otilde",
+  ö: "ouml",
+  "÷": "divide",
+  ú: "uacute",
+  ü: "uuml",
+  α: "alpha",
+  β: "beta",
+  γ: "gamma",
+  δ: "delta",
+  "–": "ndash",
+  "—": "mdash",
+  "‘": "lsquo",
+  "’": "rsquo",
+  "‚": "sbquo",
+  "“": "ldquo",
+  "”": "rdquo",
+  "„": "bdquo",
+  "†": "dagger",
+  "‡": "Dagger",
+  "•": "bull",
+  "…": "hellip",
+  "‰": "permil",
+  "′": "prime",
+  "″": "Prime",
+  "€": "euro",
+  "™": "trade",
+  "←": "larr",
+  "→": "rarr",
+  "≈": "asymp",
+  "≠": "ne",
+  "≤": "le",
+  "≥": "ge",
+};
+
+// Already-encoded references like "&reg;" or "&#174;" are left as typed
+const entityReferencePattern = /^&(#\d+|#x[\da-f]+|[a-z][a-z\d]*);/i;
+
+const toNumericEntity = (codePoint: number, entityStyle: EntityStyle) =>
+  entityStyle === "hex"
+    ? `&#x${codePoint.toString(16).toUpperCase()};`
+    : `&#${codePoint};`;
+
+/**
+ * Escapes HTML-significant characters and turns every non-ASCII character
+ * into an entity, so the text survives any email client's charset handling.
+ * Non-ASCII characters listed in `preservedCharacters` are emitted
+ * untouched, HTML-significant ones are always escaped.
+ */
+export function encodeHTMLEntities(
+  text: string,
+  { entityStyle = "named", preservedCharacters = "" }: EntityOptions = {},
+) {
+  let encoded = "";
+  let position = 0;
+
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    const isSignificant = char in namedEntities && codePoint < 128;
+
+    if (
+      (codePoint >= 128 && preservedCharacters.includes(char)) ||
+      (codePoint < 128 && !isSignificant) ||
+      (char === "&" && entityReferencePattern.test(text.slice(position)))
+    ) {
+      encoded += char;
+    } else if (entityStyle === "named" && namedEntities[char]) {
+      encoded += `&${namedEntities[char]};`;
+    } else {
+      encoded += toNumericEntity(codePoint, entityStyle);
+    }
+
+    position += char.length;
+  }
+
+  return encoded;
+}
+
+const entityCharacters = new Map(
+  Object.entries(namedEntities).map(([char, name]) => [name, char]),
+);
+
+/**
+ * Turns entity references typed into the ISI (e.g. "&reg;") back into the
+ * characters they stand for. Unknown names are left as typed.
+ */
+export function decodeHTMLEntities(text: string) {
+  return text.replace(/&(#\d+|#x[\da-f]+|[a-z][a-z\d]*);/gi, (entity, name) => {
+    if (name[0] !== "#") return entityCharacters.get(name) ?? entity;
+
+    const codePoint =
+      name[1].toLowerCase() === "x"
+        ? parseInt(name.slice(2), 16)
+        : Number(name.slice(1));
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+}
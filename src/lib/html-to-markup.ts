@@ -0,0 +1,245 @@
+import {
+  escapeMarkup,
+  wrapMarkup,
+  writeMarkupLines,
+  type MarkupLine,
+} from "./markup-writer";
+
+type InlineState = {
+  isBold: boolean;
+  isItalic: boolean;
+  isUnderline: boolean;
+  isSup: boolean;
+  isLink: boolean;
+};
+
+const blockTags = new Set([
+  "ADDRESS",
+  "ARTICLE",
+  "BLOCKQUOTE",
+  "DD",
+  "DIV",
+  "DT",
+  "FOOTER",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "HEADER",
+  "LI",
+  "OL",
+  "P",
+  "PRE",
+  "SECTION",
+  "TABLE",
+  "TR",
+  "UL",
+]);
+
+const ignoredTags = new Set([
+  "HEAD",
+  "META",
+  "LINK",
+  "STYLE",
+  "SCRIPT",
+  "TITLE",
+  "XML",
+  "O:P",
+]);
+
+const headingTags = new Set(["H1", "H2", "H3", "H4", "H5", "H6"]);
+
+export const getStyle = (element: Element, property: string) =>
+  element
+    .getAttribute("style")
+    ?.match(new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`, "i"))?.[1]
+    .trim()
+    .toLowerCase();
+
+const isBoldElement = (element: Element) => {
+  const fontWeight = getStyle(element, "font-weight");
+
+  // Google Docs wraps the whole clipboard in <b style="font-weight:normal">
+  if (fontWeight) return fontWeight === "bold" || Number(fontWeight) >= 600;
+  return ["B", "STRONG"].includes(element.tagName);
+};
+
+const isItalicElement = (element: Element) =>
+  ["I", "EM"].includes(element.tagName) ||
+  getStyle(element, "font-style") === "italic";
+
+const isUnderlineElement = (element: Element) =>
+  element.tagName === "U" ||
+  !!getStyle(element, "text-decoration")?.includes("underline");
+
+const isSupElement = (element: Element) =>
+  element.tagName === "SUP" || getStyle(element, "vertical-align") === "super";
+
+// Word writes list bullets and numbers as real text inside these spans
+const isWordListMarker = (element: Element) =>
+  getStyle(element, "mso-list") === "ignore";
+
+function convertInline(node: Node, state: InlineState): string {
+  if (node.nodeType === Node.TEXT_NODE)
+    return escapeMarkup((node.textContent ?? "").replace(/\s+/g, " "));
+
+  if (!(node instanceof Element) || ignoredTags.has(node.tagName)) return "";
+  if (node.tagName === "BR") return "\n";
+  if (isWordListMarker(node)) return "";
+
+  // A style is only opened when it isn't already active, so nested bold
+  // runs never produce "**" inside "**"
+  const isBold = !state.isBold && isBoldElement(node);
+  const isItalic = !state.isItalic && isItalicElement(node);
+  const isUnderline =
+    !state.isUnderline && !state.isLink && isUnderlineElement(node);
+  const isSup = !state.isSup && isSupElement(node);
+  const href = node.tagName === "A" ? node.getAttribute("href") : null;
+  const isLink = !state.isLink && !!href && !href.startsWith("#");
+
+  const childState = {
+    isBold: state.isBold || isBold,
+    isItalic: state.isItalic || isItalic,
+    isUnderline: state.isUnderline || isUnderline,
+    isSup: state.isSup || isSup,
+    isLink: state.isLink || isLink,
+  };
+
+  let text = Array.from(node.childNodes)
+    .map((child) => convertInline(child, childState))
+    .join("");
+
+  if (isSup) text = wrapMarkup(text, "^");
+  if (isUnderline) text = wrapMarkup(text, "__");
+  if (isItalic) text = wrapMarkup(text, "_");
+  if (isBold) text = wrapMarkup(text, "**");
+  if (isLink) text = wrapMarkup(text, "[", `](${href})`);
+
+  return text;
+}
+
+const initialState: InlineState = {
+  isBold: false,
+  isItalic: false,
+  isUnderline: false,
+  isSup: false,
+  isLink: false,
+};
+
+/**
+ * The markup for what is inside an element, without the formatting of the
+ * element itself. Line breaks are kept as "\n".
+ */
+export const convertInlineContent = (element: Element) =>
+  Array.from(element.childNodes)
+    .map((child) => convertInline(child, initialState))
+    .join("");
+
+type ListItem = {
+  marker: string;
+  level: number;
+  // Only the first line of an item gets its marker
+  isUsed: boolean;
+};
+
+function getListItem(element: Element, listLevel: number): ListItem | null {
+  if (element.tagName === "LI") {
+    // Google Docs keeps nested lists flat and marks the depth instead
+    const ariaLevel = Number(element.getAttribute("aria-level"));
+
+    return {
+      marker: element.parentElement?.tagName === "OL" ? "1." : "-",
+      level: ariaLevel > 0 ? ariaLevel - 1 : listLevel,
+      isUsed: false,
+    };
+  }
+
+  // Word doesn't use real lists, just paragraphs with an mso-list style
+  const msoList = getStyle(element, "mso-list");
+  const level = msoList?.match(/level(\d+)/)?.[1];
+  if (!level) return null;
+
+  const markerText =
+    Array.from(element.querySelectorAll("span"))
+      .find(isWordListMarker)
+      ?.textContent?.trim() ?? "";
+
+  return {
+    marker: /^[\da-z]+[.)]$/i.test(markerText) ? "1." : "-",
+    level: Number(level) - 1,
+    isUsed: false,
+  };
+}
+
+const blockSelector = Array.from(blockTags).join(",");
+
+// Google Docs puts every paragraph inside a single <b>, so inline elements
+// that hold blocks are walked like blocks too
+const containsBlocks = (element: Element) =>
+  blockTags.has(element.tagName) || !!element.querySelector(blockSelector);
+
+function collectLines(
+  element: Element,
+  lines: MarkupLine[],
+  listLevel: number,
+  parentItem: ListItem | null = null,
+) {
+  let buffer = "";
+  const item = getListItem(element, listLevel) ?? parentItem;
+  const isHeading = headingTags.has(element.tagName);
+
+  const flush = () => {
+    buffer
+      .split("\n")
+      .map((text) => text.trim())
+      .filter(Boolean)
+      .forEach((text) => {
+        if (item && !item.isUsed) {
+          item.isUsed = true;
+          lines.push({ text, marker: item.marker, level: item.level });
+          return;
+        }
+
+        lines.push({
+          text: isHeading ? wrapMarkup(text, "**") : text,
+          level: 0,
+        });
+      });
+    buffer = "";
+  };
+
+  element.childNodes.forEach((child) => {
+    if (child instanceof Element && containsBlocks(child)) {
+      flush();
+      const isList = ["UL", "OL"].includes(child.tagName);
+      collectLines(
+        child,
+        lines,
+        isList && element.tagName === "LI" ? listLevel + 1 : listLevel,
+        isList ? null : item,
+      );
+      return;
+    }
+
+    buffer += convertInline(child, initialState);
+  });
+
+  flush();
+}
+
+/**
+ * Turns clipboard HTML (typically from Word or Google Docs) into ISI markup.
+ * Bold, italic, underline, superscript, links and lists are kept; every
+ * other bit of formatting and Word's Office-specific markup is dropped.
+ */
+export function convertHTMLToMarkup(html: string) {
+  // Word's conditional comments end up as comment nodes, which are skipped
+  const document = new DOMParser().parseFromString(html, "text/html");
+
+  const lines: MarkupLine[] = [];
+  collectLines(document.body, lines, 0);
+
+  return writeMarkupLines(lines);
+}
@@ -0,0 +1,240 @@
+import { encodeHTMLEntities, type EntityOptions } from "./html-entities";
+
+export type InlineStyle = "bold" | "italic" | "underline" | "sup";
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: InlineStyle; children: InlineNode[] }
+  | { type: "link"; href: string; children: InlineNode[] };
+
+export type InlineRenderOptions = EntityOptions & {
+  linkColor?: string;
+  underlineLinks?: boolean;
+  openLinksInNewTab?: boolean;
+};
+
+// Longer delimiters come first so "__" is never mistaken for two "_"
+const markers: { delimiter: string; type: InlineStyle }[] = [
+  { delimiter: "**", type: "bold" },
+  { delimiter: "__", type: "underline" },
+  { delimiter: "_", type: "italic" },
+  { delimiter: "^", type: "sup" },
+];
+
+const escapableCharacters = "\\*_^[]#:-.)";
+
+const allowedLinkProtocols = ["http:", "https:", "mailto:", "tel:"];
+
+const inlineStyles: Record<InlineStyle, string> = {
+  bold: "font-weight: bold;",
+  italic: "font-style: italic;",
+  underline: "text-decoration: underline;",
+  sup: "font-size: 70%; line-height: 0; vertical-align: super;",
+};
+
+/**
+ * Finds the ")" that ends a link URL starting at `start`, allowing balanced
+ * parentheses inside the URL. Whitespace means it isn't a link after all.
+ */
+function findLinkEnd(text: string, start: number) {
+  let depth = 0;
+
+  for (let position = start; position < text.length; position++) {
+    const char = text[position];
+
+    if (/\s/.test(char)) return -1;
+    if (char === "(") depth++;
+    if (char === ")") {
+      if (depth === 0) return position;
+      depth--;
+    }
+  }
+
+  return -1;
+}
+
+type ParseResult = {
+  nodes: InlineNode[];
+  position: number;
+  isClosed: boolean;
+};
+
+const isWordCharacter = (char: string | undefined) =>
+  char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+// Underscores inside words (snake_case, file names) are never markup
+const canOpen = (text: string, position: number, delimiter: string) =>
+  !delimiter.startsWith("_") || !isWordCharacter(text[position - 1]);
+
+const canClose = (text: string, position: number, delimiter: string) =>
+  !delimiter.startsWith("_") ||
+  !isWordCharacter(text[position + delimiter.length]);
+
+function parseRange(
+  text: string,
+  start: number,
+  cache: Map<string, ParseResult>,
+  closing?: string,
+): ParseResult {
+  // Unclosed markers make the parser retry the same ranges over and over,
+  // so results are memoized to keep long lines from blowing up.
+  const cacheKey = `${start}:${closing ?? ""}`;
+  const cached = cache.get(cacheKey);
+  if (cached) return cached;
+
+  const nodes: InlineNode[] = [];
+  let buffer = "";
+  let position = start;
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: "text", text: buffer });
+    buffer = "";
+  };
+
+  const finish = (result: ParseResult) => {
+    cache.set(cacheKey, result);
+    return result;
+  };
+
+  outer: while (position < text.length) {
+    const char = text[position];
+
+    if (char === "\\" && escapableCharacters.includes(text[position + 1])) {
+      buffer += text[position + 1];
+      position += 2;
+      continue;
+    }
+
+    if (closing === "]" && char === "]") {
+      flush();
+      return finish({ nodes, position: position + 1, isClosed: true });
+    }
+
+    // Links can't be nested, so "[" only opens one outside of link text
+    if (char === "[" && closing !== "]") {
+      const label = parseRange(text, position + 1, cache, "]");
+      const linkEnd =
+        label.isClosed && text[label.position] === "("
+          ? findLinkEnd(text, label.position + 1)
+          : -1;
+
+      if (linkEnd > label.position + 1 && label.nodes.length > 0) {
+        flush();
+        nodes.push({
+          type: "link",
+          href: text.substring(label.position + 1, linkEnd),
+          children: label.nodes,
+        });
+        position = linkEnd + 1;
+        continue;
+      }
+    }
+
+    for (const { delimiter, type } of markers) {
+      if (!text.startsWith(delimiter, position)) continue;
+
+      if (delimiter === closing && canClose(text, position, delimiter)) {
+        flush();
+        return finish({
+          nodes,
+          position: position + delimiter.length,
+          isClosed: true,
+        });
+      }
+
+      if (delimiter === closing || !canOpen(text, position, delimiter))
+        continue;
+
+      const inner = parseRange(
+        text,
+        position + delimiter.length,
+        cache,
+        delimiter,
+      );
+      if (inner.isClosed && inner.nodes.length > 0) {
+        flush();
+        nodes.push({ type, children: inner.nodes });
+        position = inner.position;
+        continue outer;
+      }
+    }
+
+    buffer += char;
+    position++;
+  }
+
+  flush();
+  return finish({ nodes, position, isClosed: false });
+}
+
+/**
+ * Parses `**bold**`, `__underline__`, `_italic_`, `^sup^` and `[text](url)`
+ * markup. Markers without a matching closing marker are kept as plain text,
+ * and any of them can be escaped with a backslash.
+ */
+export function parseInline(text: string): InlineNode[] {
+  return parseRange(text, 0, new Map()).nodes;
+}
+
+export function isValidLinkURL(href: string) {
+  try {
+    return allowedLinkProtocols.includes(new URL(href).protocol);
+  } catch {
+    return false;
+  }
+}
+
+export function collectLinks(nodes: InlineNode[]): string[] {
+  return nodes.flatMap((node) => {
+    if (node.type === "text") return [];
+    if (node.type === "link")
+      return [node.href, ...collectLinks(node.children)];
+    return collectLinks(node.children);
+  });
+}
+
+export function renderInlineHTML(
+  nodes: InlineNode[],
+  options: InlineRenderOptions = {},
+): string {
+  const {
+    linkColor,
+    underlineLinks = true,
+    openLinksInNewTab = true,
+  } = options;
+
+  return nodes
+    .map((node) => {
+      if (node.type === "text") return encodeHTMLEntities(node.text, options);
+
+      if (node.type === "link") {
+        const href = encodeHTMLEntities(node.href, {
+          entityStyle: options.entityStyle,
+        });
+        const target = openLinksInNewTab ? ' target="_blank"' : "";
+        return `<a href="${href}"${target} style="color: ${linkColor || "#0000EE"}; text-decoration: ${underlineLinks ? "underline" : "none"};">${renderInlineHTML(node.children, options)}</a>`;
+      }
+
+      const tag = node.type === "sup" ? "sup" : "span";
+      return `<${tag} style="${inlineStyles[node.type]}">${renderInlineHTML(node.children, options)}</${tag}>`;
+    })
+    .join("");
+}
+
+/**
+ * Flattens inline markup into plain text. Styles have no plain-text
+ * equivalent and are dropped, links are spelled out as "text (url)".
+ */
+export function renderInlineText(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "text") return node.text;
+
+      const text = renderInlineText(node.children);
+      if (node.type !== "link") return text;
+
+      const url = node.href.replace(/^mailto:/, "");
+      return text === node.href || text === url ? url : `${text} (${url})`;
+    })
+    .join("");
+}
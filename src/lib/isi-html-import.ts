@@ -0,0 +1,401 @@
+import { fontStacks, type FontFamily } from "./font-stacks";
+import {
+  convertHTMLToMarkup,
+  convertInlineContent,
+  getStyle,
+} from "./html-to-markup";
+import { headingTags } from "./email-generator";
+import { writeMarkupLines } from "./markup-writer";
+import type { ISISettings } from "./presets";
+
+export type HTMLImportResult = {
+  markup: string;
+  // Only what could be read from the HTML, everything else keeps its value
+  settings: ISISettings;
+  // Parts of the HTML that have no setting or markup equivalent
+  warnings: string[];
+};
+
+// Every glyph list-markers.ts has ever written, plus the usual hand-typed ones
+const bulletPattern = /^[•·‣◦▪■□○●–—*-]$/;
+const numberPattern = /^(\d+|[a-z]{1,2}|[ivxlcdm]+)[.)]$/i;
+
+const toNumber = (value?: string) => {
+  const number = parseFloat(value ?? "");
+  return Number.isNaN(number) ? undefined : number;
+};
+
+function toHexColor(value?: string | null) {
+  if (!value) return undefined;
+  const color = value.trim();
+  if (/^#([a-f\d]{3}|[a-f\d]{6})$/i.test(color)) return color.toUpperCase();
+
+  const rgb = color.match(/^rgba?\((\d+),\s*(\d+),\s*(\d+)/i);
+  if (!rgb) return undefined;
+
+  return `#${rgb
+    .slice(1, 4)
+    .map((channel) => Number(channel).toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase()}`;
+}
+
+const normalizeStack = (stack: string) =>
+  stack.toLowerCase().replace(/["'\s]/g, "");
+
+// A stack that ends with one of the built-in stacks is that family, and
+// whatever comes before it is a web font
+function getFontSettings(stack: string): Partial<ISISettings> {
+  const normalizedStack = normalizeStack(stack);
+
+  for (const [family, { stack: knownStack }] of Object.entries(fontStacks)) {
+    const normalizedKnownStack = normalizeStack(knownStack);
+    if (!normalizedStack.endsWith(normalizedKnownStack)) continue;
+
+    const webFont = stack.slice(0, stack.indexOf(",")).replace(/["']/g, "");
+    return {
+      fontFamily: family as FontFamily,
+      webFontName:
+        normalizedStack === normalizedKnownStack ? "" : webFont.trim(),
+    };
+  }
+
+  return { fontFamily: "custom", customFontFamily: stack.replace(/"/g, "'") };
+}
+
+/**
+ * The value most cells agree on. Legacy ISIs are sometimes hand-edited row
+ * by row, so mixed values are reported instead of failing the import.
+ */
+function getCommonValue(
+  values: (string | undefined)[],
+  property: string,
+  warnings: string[],
+) {
+  const counts = new Map<string, number>();
+  values.forEach((value) => {
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+
+  const [common] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  if (common && counts.size > 1) {
+    warnings.push(
+      `Rows use more than one ${property}, so the most common one (${common[0]}) was used.`,
+    );
+  }
+
+  return common?.[0];
+}
+
+const isMarkerCell = (cell: Element) => {
+  const text = cell.textContent?.trim() ?? "";
+  return (
+    cell.nextElementSibling?.tagName === "TD" &&
+    (bulletPattern.test(text) || numberPattern.test(text))
+  );
+};
+
+const headingElements = "h1, h2, h3, h4, h5, h6";
+
+const isHeadingTag = (tag: string): tag is (typeof headingTags)[number] =>
+  (headingTags as readonly string[]).includes(tag);
+
+const isContainerCell = (cell: Element) => !!cell.querySelector("table");
+
+const getBorder = (element: Element) =>
+  getStyle(element, "border")?.match(
+    /(\d+)px\s+\w+\s+(#[a-f\d]{3,6}|rgb[^)]*\))/i,
+  );
+
+// A bordered cell around a table of rows is a boxed warning
+const isBoxCell = (cell: Element) => isContainerCell(cell) && !!getBorder(cell);
+
+function getBoxCell(cell: Element) {
+  let ancestor = cell.parentElement?.closest("td");
+  while (ancestor) {
+    if (isBoxCell(ancestor)) return ancestor;
+    ancestor = ancestor.parentElement?.closest("td");
+  }
+  return null;
+}
+
+// Every list item table above this one adds a level, since sub-lists are
+// nested inside the text column of their parent item
+function getListLevel(markerCell: Element) {
+  let level = 0;
+  let table = markerCell.closest("table")?.parentElement?.closest("table");
+
+  while (table) {
+    const firstCell = table.querySelector("td");
+    if (firstCell && isMarkerCell(firstCell)) level++;
+    table = table.parentElement?.closest("table");
+  }
+
+  return level;
+}
+
+/**
+ * Reads an ISI table, as generated by this tool or built by hand the same
+ * way, back into ISI markup and the settings that produce it. Anything that
+ * can't be expressed that way is left out and listed in the warnings.
+ */
+export function importISIHTML(html: string): HTMLImportResult {
+  const document = new DOMParser().parseFromString(html, "text/html");
+  const warnings: string[] = [];
+
+  const wrapper =
+    document.querySelector("table.wrapper") ?? document.querySelector("table");
+  if (!wrapper) {
+    return {
+      markup: convertHTMLToMarkup(html),
+      settings: {},
+      warnings: ["No ISI table was found, so only the text was imported."],
+    };
+  }
+
+  const settings: ISISettings = {};
+  const lines: string[] = [];
+  const bodyCells: Element[] = [];
+  const markerCells: Element[] = [];
+  // Bold rows and their first line, checked against the body size later on
+  const boldCells: [Element, string][] = [];
+  let currentBox: Element | null = null;
+
+  // The tier classes tell headings, subheads and bold rows apart. Without
+  // them, the top heading level becomes "#" and every level below it "##".
+  const hasTierClasses = !!wrapper.querySelector(".isi-text");
+  const topHeadingLevel = Math.min(
+    ...Array.from(wrapper.querySelectorAll(headingElements)).map((heading) =>
+      Number(heading.tagName[1]),
+    ),
+  );
+
+  const pushText = (text: string, prefix = "") =>
+    lines.push(
+      prefix ? `${prefix}${text}` : writeMarkupLines([{ text, level: 0 }]),
+    );
+
+  wrapper.querySelectorAll("td").forEach((cell) => {
+    if (isContainerCell(cell)) return;
+    // Item text is read together with its marker
+    if (
+      cell.previousElementSibling &&
+      isMarkerCell(cell.previousElementSibling)
+    )
+      return;
+
+    const content = cell.querySelector(headingElements) ?? cell;
+    const texts = convertInlineContent(content)
+      .split("\n")
+      .map((text) => text.trim())
+      .filter(Boolean);
+    // Gutters and spacer cells only hold &nbsp;
+    if (texts.length === 0) return;
+
+    const box = getBoxCell(cell);
+    if (box !== currentBox) {
+      if (currentBox) lines.push(":::");
+      if (box) lines.push(":::warning");
+      currentBox = box;
+    }
+
+    if (isMarkerCell(cell)) {
+      const itemCell = cell.nextElementSibling as Element;
+      const marker = bulletPattern.test(texts[0]) ? "-" : "1.";
+      const itemText = convertInlineContent(itemCell)
+        .replace(/\s*\n\s*/g, " ")
+        .trim();
+
+      markerCells.push(cell);
+      bodyCells.push(itemCell);
+      lines.push(`${"  ".repeat(getListLevel(cell))}${marker} ${itemText}`);
+      return;
+    }
+
+    const fontWeight = getStyle(cell, "font-weight");
+    const isBold = fontWeight === "bold" || (toNumber(fontWeight) ?? 0) >= 600;
+    const headingPrefix =
+      content === cell || hasTierClasses
+        ? ""
+        : Number(content.tagName[1]) === topHeadingLevel
+          ? "# "
+          : "## ";
+    const prefix = cell.classList.contains("isi-heading")
+      ? "# "
+      : cell.classList.contains("isi-subhead")
+        ? "## "
+        : headingPrefix || (isBold ? "**" : "");
+
+    const headingTag = content.tagName.toLowerCase();
+    if (content !== cell && prefix !== "## " && isHeadingTag(headingTag)) {
+      settings.isAccessible = true;
+      settings.headingTag = headingTag;
+    }
+    if (prefix === "**") boldCells.push([cell, texts[0]]);
+
+    if (box && prefix.startsWith("#")) {
+      const align = cell.getAttribute("align") ?? getStyle(cell, "text-align");
+      if (align === "left" || align === "center")
+        settings.boxHeadingAlign = align;
+    } else if (!prefix) {
+      bodyCells.push(cell);
+      const align = cell.getAttribute("align") ?? getStyle(cell, "text-align");
+      if (align && align !== "left")
+        warnings.push(`"${texts[0]}" was aligned ${align}, which isn't kept.`);
+    }
+
+    texts.forEach((text) => pushText(text, prefix));
+  });
+  if (currentBox) lines.push(":::");
+
+  if (lines.length === 0)
+    warnings.push("The table didn't have any rows with text in them.");
+
+  // Body settings
+  const getValues = (cells: Element[], property: string) =>
+    cells.map((cell) => getStyle(cell, property));
+
+  const fontSize = getCommonValue(
+    getValues(bodyCells, "font-size"),
+    "font size",
+    warnings,
+  );
+  const lineHeight = getCommonValue(
+    getValues(bodyCells, "line-height"),
+    "line height",
+    warnings,
+  );
+  const padding = getCommonValue(
+    getValues(bodyCells, "padding-bottom"),
+    "spacing between lines",
+    warnings,
+  );
+  const fontColor = getCommonValue(
+    getValues(bodyCells, "color").map(toHexColor),
+    "font color",
+    warnings,
+  );
+  const fontFamily = getCommonValue(
+    bodyCells.map((cell) =>
+      cell
+        .getAttribute("style")
+        ?.match(/font-family\s*:\s*([^;]+)/i)?.[1]
+        .trim(),
+    ),
+    "font",
+    warnings,
+  );
+  const bulletColor = getCommonValue(
+    getValues(markerCells, "color").map(toHexColor),
+    "bullet color",
+    warnings,
+  );
+
+  if (fontSize) settings.fontSize = toNumber(fontSize);
+
+  if (lineHeight) settings.lineHeight = toNumber(lineHeight);
+  if (padding) settings.padding = toNumber(padding);
+  if (fontColor) settings.fontColor = fontColor;
+  if (fontFamily) Object.assign(settings, getFontSettings(fontFamily));
+  if (bulletColor) {
+    settings.bulletColor = bulletColor;
+    settings.hasBullets = bulletColor !== settings.fontColor;
+  }
+
+  // Bold rows set in a bigger font than the body were most likely headings
+  const headingLikeTexts = boldCells
+    .filter(
+      ([cell]) =>
+        !!settings.fontSize &&
+        (toNumber(getStyle(cell, "font-size")) ?? 0) > settings.fontSize,
+    )
+    .map(([, text]) => `"${text}"`);
+  if (headingLikeTexts.length > 0) {
+    warnings.push(
+      `${headingLikeTexts.join(", ")} looked like ${headingLikeTexts.length === 1 ? "a heading" : "headings"} but ${headingLikeTexts.length === 1 ? "was" : "were"} imported as bold lines. Start a line with "#" to make it a heading.`,
+    );
+  }
+
+  // Table settings
+  const tableColor = toHexColor(
+    wrapper.getAttribute("bgcolor") ?? getStyle(wrapper, "background-color"),
+  );
+  if (tableColor) settings.tableColor = tableColor;
+
+  const tableWidth = toNumber(wrapper.getAttribute("width") ?? undefined);
+  if (tableWidth && !wrapper.getAttribute("width")?.includes("%"))
+    settings.tableWidth = tableWidth;
+
+  const gutter =
+    wrapper.querySelector("td.gutter") ??
+    Array.from(wrapper.querySelectorAll("td")).find(
+      (cell) => cell.getAttribute("width") && !cell.textContent?.trim(),
+    );
+  const gutterWidth = toNumber(gutter?.getAttribute("width") ?? undefined);
+  if (gutterWidth !== undefined) settings.gutterWidth = gutterWidth;
+
+  const lang = wrapper.getAttribute("lang");
+  if (lang) {
+    settings.lang = lang;
+    settings.isAccessible = true;
+  }
+
+  // Links
+  const link = wrapper.querySelector("a[href]");
+  if (link) {
+    const linkColor = toHexColor(getStyle(link, "color"));
+    if (linkColor) settings.linkColor = linkColor;
+    settings.underlineLinks = getStyle(link, "text-decoration") !== "none";
+    settings.openLinksInNewTab = link.getAttribute("target") === "_blank";
+  }
+
+  // Boxed warning
+  const boxCell = Array.from(wrapper.querySelectorAll("td")).find(isBoxCell);
+  const border = boxCell && getBorder(boxCell);
+  if (boxCell && border) {
+    settings.boxBorderWidth = Number(border[1]);
+    settings.boxBorderColor = toHexColor(border[2]);
+    settings.boxPadding = toNumber(getStyle(boxCell, "padding"));
+    settings.boxBackgroundColor =
+      toHexColor(
+        boxCell.getAttribute("bgcolor") ??
+          getStyle(boxCell, "background-color"),
+      ) ?? "";
+  }
+
+  // Inline colors other than the body and link colors have no markup
+  const coloredText = Array.from(wrapper.querySelectorAll("span, font")).find(
+    (element) => {
+      const color = toHexColor(
+        getStyle(element, "color") ?? element.getAttribute("color"),
+      );
+      return color && color !== settings.fontColor;
+    },
+  );
+  if (coloredText) {
+    warnings.push(
+      `Text in a different color ("${coloredText.textContent?.trim()}") was imported in the body color.`,
+    );
+  }
+
+  const imageCount = wrapper.querySelectorAll("img").length;
+  if (imageCount > 0) {
+    warnings.push(
+      `${imageCount} image${imageCount === 1 ? " was" : "s were"} left out.`,
+    );
+  }
+
+  // Stylesheets are only read for the features this tool writes them for
+  const css = Array.from(document.querySelectorAll("style"))
+    .map((style) => style.textContent ?? "")
+    .join("\n");
+  if (css) {
+    settings.isResponsive = /@media[^{]*max-width/i.test(css);
+    settings.hasDarkMode = /prefers-color-scheme\s*:\s*dark/i.test(css);
+
+    if (!settings.isResponsive && !settings.hasDarkMode)
+      warnings.push("A <style> block was left out.");
+  }
+
+  return { markup: lines.join("\n"), settings, warnings };
+}
@@ -0,0 +1,119 @@
+import { parseInline, type InlineNode } from "./inline-markup";
+
+export type ISIRow = {
+  content: InlineNode[];
+  isBold: boolean;
+  isBullet: boolean;
+  // 1 for "#" headings, 2 for "##" subheads, 0 for everything else
+  headingLevel: number;
+  // Which boxed warning the row is in, counted from 1, or 0 outside of one
+  box: number;
+  // List placement, only meaningful for bullet rows
+  level: number;
+  isOrdered: boolean;
+  index: number;
+};
+
+// A leading "**" without a closing pair bolds the whole line, which is how
+// ISIs were written before inline markup existed.
+const isLineBold = (text: string) =>
+  text.startsWith("**") && !text.includes("**", 2);
+
+const headingPattern = /^(#{1,2})\s+(.*)$/;
+// A boxed warning runs from ":::warning" to a closing ":::", or to the end
+// of the ISI when it's never closed
+const boxStartPattern = /^:::\s*warning\s*$/i;
+const boxEndPattern = /^:::\s*$/;
+const unorderedItemPattern = /^([ \t]*)-(.*)$/;
+const orderedItemPattern = /^([ \t]*)\d+[.)]\s+(.*)$/;
+
+// Two spaces or one tab per nesting level
+const getIndentLevel = (indent: string) =>
+  Math.floor(indent.replace(/\t/g, "  ").length / 2);
+
+export function parseISI(ISI: string): ISIRow[] {
+  // Running item count for each open list level, so numbered items are
+  // renumbered no matter what the user typed
+  let counters: { isOrdered: boolean; count: number }[] = [];
+  let boxCount = 0;
+  let box = 0;
+
+  return ISI.split(/\r?\n|\r/)
+    .filter((row) => row.length > 0)
+    .flatMap((text): ISIRow | [] => {
+      if (boxStartPattern.test(text) || boxEndPattern.test(text)) {
+        counters = [];
+        box = boxEndPattern.test(text) ? 0 : ++boxCount;
+        return [];
+      }
+
+      const heading = text.match(headingPattern);
+      if (heading) {
+        counters = [];
+        return {
+          content: parseInline(heading[2]),
+          isBold: false,
+          isBullet: false,
+          headingLevel: heading[1].length,
+          box,
+          level: 0,
+          isOrdered: false,
+          index: 0,
+        };
+      }
+
+      const orderedItem = text.match(orderedItemPattern);
+      const listItem = orderedItem ?? text.match(unorderedItemPattern);
+
+      if (isLineBold(text) || !listItem) {
+        counters = [];
+        const isBold = isLineBold(text);
+        return {
+          content: parseInline(isBold ? text.substring(2) : text),
+          isBold,
+          isBullet: false,
+          headingLevel: 0,
+          box,
+          level: 0,
+          isOrdered: false,
+          index: 0,
+        };
+      }
+
+      const [, indent, itemText] = listItem;
+      const isOrdered = orderedItem !== null;
+      // A sub-list can only go one level deeper than the item above it
+      const level = Math.min(getIndentLevel(indent), counters.length);
+
+      counters = counters.slice(0, level + 1);
+      if (counters[level]?.isOrdered !== isOrdered)
+        counters[level] = { isOrdered, count: 0 };
+      counters[level].count++;
+
+      return {
+        content: parseInline(itemText),
+        isBold: false,
+        isBullet: true,
+        headingLevel: 0,
+        box,
+        level,
+        isOrdered,
+        index: counters[level].count,
+      };
+    });
+}
+
+/**
+ * A heading, or a row that is bold from start to end, either through the
+ * legacy leading "**" or inline markup around the whole line.
+ */
+export const isBoldRow = ({
+  content,
+  isBold,
+  isBullet,
+  headingLevel,
+}: ISIRow) =>
+  !isBullet &&
+  (headingLevel > 0 ||
+    isBold ||
+    (content.length === 1 && content[0].type === "bold"));
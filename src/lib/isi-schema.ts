@@ -0,0 +1,345 @@
+import { z } from "zod";
+import { boxHeadingAligns } from "./boxed-warning";
+import { getContrastChecks } from "./color-contrast";
+import { fontFamilies } from "./font-stacks";
+import { entityStyles } from "./html-entities";
+import { collectLinks, isValidLinkURL } from "./inline-markup";
+import { parseISI } from "./isi-parser";
+import { defaultTableColor, headingTags } from "./email-generator";
+import { outputFormats } from "./mjml-generator";
+import { indentStyles, lineEndings } from "./output-format";
+import { textBullets } from "./text-generator";
+
+export const adSizes = [
+  "300x250",
+  "728x90",
+  "160x600",
+  "300x600",
+  "320x50",
+] as const;
+
+export type ISIMode = "email" | "banner";
+
+// Empty tier fields inherit the body setting instead of turning into 0
+const inheritedNumber = (message: string) =>
+  z.preprocess(
+    (value) => (value === "" ? undefined : value),
+    z.coerce.number({ message }).optional(),
+  );
+
+const TierStyleSchema = z.object({
+  fontSize: inheritedNumber("Font size needs to be a number"),
+  lineHeight: inheritedNumber("Line height needs to be a number"),
+  fontColor: z
+    .string()
+    .regex(/^(#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))$|^$/i, {
+      message: "Font color needs to be a valid hex color",
+    })
+    .optional(),
+  letterSpacing: inheritedNumber("Letter spacing needs to be a number"),
+  padding: inheritedNumber("Spacing needs to be a number"),
+});
+
+export const ISIValuesSchema = z.object({
+  brandName: z.string().optional(),
+  jobCode: z.string().optional(),
+  padding: z.coerce
+    .number({ message: "Padding needs to be a number" })
+    .optional(),
+  fontSize: z.coerce
+    .number({ message: "Font size needs to be a number" })
+    .optional(),
+  fontColor: z
+    .string()
+    .regex(/^(#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))$|^$/i, {
+      message: "Font color needs to be a valid hex color",
+    })
+    .optional(),
+  tableColor: z
+    .string()
+    .regex(/^(#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))$|^$/i, {
+      message: "Table color needs to be a valid hex color",
+    })
+    .optional(),
+  lineHeight: z.coerce
+    .number({ message: "Line height needs to be a number" })
+    .optional(),
+  fontFamily: z.enum(fontFamilies).optional(),
+  customFontFamily: z
+    .string()
+    .regex(/^[^"<>;{}]*$/, {
+      message: "Font stack can't contain double quotes, <, >, ; or braces",
+    })
+    .optional(),
+  webFontName: z
+    .string()
+    .regex(/^[^"'<>;{}]*$/, {
+      message: "Font name can't contain quotes, <, >, ; or braces",
+    })
+    .optional(),
+  webFontUrl: z
+    .string()
+    .url({ message: "Web font URL needs to be a valid URL" })
+    .regex(/^https:\/\/[^"'<>\s]+$/, {
+      message: "Web font URL needs to be an https:// URL",
+    })
+    .or(z.literal(""))
+    .optional(),
+  gutterWidth: z.coerce
+    .number({ message: "Gutter needs to be a number" })
+    .optional(),
+  ISI: z
+    .string()
+    .min(1, { message: "ISI text is required" })
+    .superRefine((ISI, ctx) => {
+      const malformedLinks = parseISI(ISI)
+        .flatMap(({ content }) => collectLinks(content))
+        .filter((href) => !isValidLinkURL(href));
+
+      if (malformedLinks.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Malformed link URL: ${malformedLinks.join(", ")}`,
+        });
+      }
+    }),
+  tierStyles: z
+    .object({
+      heading: TierStyleSchema.optional(),
+      subhead: TierStyleSchema.optional(),
+      bullet: TierStyleSchema.optional(),
+    })
+    .optional(),
+  boxBorderColor: z
+    .string()
+    .regex(/^(#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))$|^$/i, {
+      message: "Border color needs to be a valid hex color",
+    })
+    .optional(),
+  boxBorderWidth: z.coerce
+    .number({ message: "Border width needs to be a number" })
+    .nonnegative({ message: "Border width can't be negative" })
+    .optional(),
+  boxPadding: z.coerce
+    .number({ message: "Box padding needs to be a number" })
+    .nonnegative({ message: "Box padding can't be negative" })
+    .optional(),
+  boxBackgroundColor: z
+    .string()
+    .regex(/^(#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))$|^$/i, {
+      message: "Box background needs to be a valid hex color",
+    })
+    .optional(),
+  boxHeadingColor: z
+    .string()
+    .regex(/^(#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))$|^$/i, {
+      message: "Heading color needs to be a valid hex color",
+    })
+    .optional(),
+  boxHeadingFontSize: inheritedNumber("Heading size needs to be a number"),
+  boxHeadingAlign: z.enum(boxHeadingAligns).optional(),
+  hasBullets: z.boolean().optional(),
+  bulletColor: z
+    .string()
+    .regex(/^(#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))$|^$/i, {
+      message: "Bullet color needs to be a valid hex color",
+    })
+    .optional(),
+  blockLowContrast: z.boolean().optional(),
+  linkColor: z
+    .string()
+    .regex(/^(#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))$|^$/i, {
+      message: "Link color needs to be a valid hex color",
+    })
+    .optional(),
+  underlineLinks: z.boolean().optional(),
+  openLinksInNewTab: z.boolean().optional(),
+  entityStyle: z.enum(entityStyles).optional(),
+  preservedCharacters: z.string().optional(),
+  indentStyle: z.enum(indentStyles).optional(),
+  indentSize: z.coerce
+    .number({ message: "Indent size needs to be a number" })
+    .int({ message: "Indent size needs to be a whole number" })
+    .min(1, { message: "Indent size needs to be at least 1" })
+    .max(8, { message: "Indent size can't be more than 8" })
+    .optional(),
+  lineEnding: z.enum(lineEndings).optional(),
+  outputFormat: z.enum(outputFormats).optional(),
+  isOutlookSafe: z.boolean().optional(),
+  isAccessible: z.boolean().optional(),
+  headingTag: z.enum(headingTags).optional(),
+  lang: z
+    .string()
+    .regex(/^[a-z]{2,3}(-[a-z\d]{2,8})*$|^$/i, {
+      message: "Language needs to be a code like en or en-US",
+    })
+    .optional(),
+  tableWidth: z.coerce
+    .number({ message: "Table width needs to be a number" })
+    .positive({ message: "Table width needs to be greater than 0" })
+    .optional(),
+  isResponsive: z.boolean().optional(),
+  mobileBreakpoint: z.coerce
+    .number({ message: "Mobile breakpoint needs to be a number" })
+    .positive({ message: "Mobile breakpoint needs to be greater than 0" })
+    .optional(),
+  mobileGutterWidth: z.coerce
+    .number({ message: "Mobile gutter needs to be a number" })
+    .nonnegative({ message: "Mobile gutter can't be negative" })
+    .optional(),
+  mobileFontSize: z.coerce
+    .number({ message: "Mobile font size needs to be a number" })
+    .optional(),
+  mobileLineHeight: z.coerce
+    .number({ message: "Mobile line height needs to be a number" })
+    .optional(),
+  hasDarkMode: z.boolean().optional(),
+  darkFontColor: z
+    .string()
+    .regex(/^(#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))$|^$/i, {
+      message: "Dark font color needs to be a valid hex color",
+    })
+    .optional(),
+  darkTableColor: z
+    .string()
+    .regex(/^(#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))$|^$/i, {
+      message: "Dark table color needs to be a valid hex color",
+    })
+    .optional(),
+  darkBulletColor: z
+    .string()
+    .regex(/^(#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))$|^$/i, {
+      message: "Dark bullet color needs to be a valid hex color",
+    })
+    .optional(),
+  textWidth: z.coerce
+    .number({ message: "Text width needs to be a number" })
+    .int({ message: "Text width needs to be a whole number" })
+    .min(20, { message: "Text width needs to be at least 20 characters" })
+    .optional(),
+  textBullet: z.enum(textBullets).optional(),
+  uppercaseBoldLines: z.boolean().optional(),
+  adSize: z.enum(adSizes).optional(),
+  isiHeight: z.coerce
+    .number({ message: "ISI height needs to be a number" })
+    .positive({ message: "ISI height needs to be greater than 0" })
+    .optional(),
+  scrollSpeed: z.coerce
+    .number({ message: "Scroll speed needs to be a number" })
+    .nonnegative({ message: "Scroll speed can't be negative" })
+    .optional(),
+  scrollDelay: z.coerce
+    .number({ message: "Start delay needs to be a number" })
+    .nonnegative({ message: "Start delay can't be negative" })
+    .optional(),
+  pauseOnHover: z.boolean().optional(),
+});
+
+export type ISIValues = z.infer<typeof ISIValuesSchema>;
+
+// Kept apart from ISIValuesSchema, which presets still need as a plain
+// object schema
+export const ISIFormSchema = ISIValuesSchema.superRefine((values, ctx) => {
+  if (!values.blockLowContrast) return;
+
+  Object.entries(getContrastChecks(values)).forEach(([field, check]) => {
+    if (check.isAA) return;
+
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: field.split("."),
+      message: `Contrast of ${check.ratio.toFixed(2)}:1 is below WCAG AA`,
+    });
+  });
+});
+
+export const emailDefaultValues: ISIValues = {
+  brandName: "",
+  jobCode: "",
+  padding: 10,
+  fontSize: 16,
+  fontColor: "#000000",
+  tableColor: defaultTableColor,
+  lineHeight: 16,
+  fontFamily: "arial",
+  customFontFamily: "",
+  webFontName: "",
+  webFontUrl: "",
+  gutterWidth: 30,
+  ISI: "",
+  tierStyles: { heading: {}, subhead: {}, bullet: {} },
+  boxBorderColor: "#000000",
+  boxBorderWidth: 2,
+  boxPadding: 10,
+  boxBackgroundColor: "",
+  boxHeadingColor: "",
+  boxHeadingAlign: "center",
+  hasBullets: false,
+  bulletColor: "#000000",
+  blockLowContrast: false,
+  linkColor: "#0000EE",
+  underlineLinks: true,
+  openLinksInNewTab: true,
+  entityStyle: "named",
+  preservedCharacters: "",
+  indentStyle: "tabs",
+  indentSize: 2,
+  lineEnding: "lf",
+  outputFormat: "html",
+  isOutlookSafe: false,
+  isAccessible: false,
+  headingTag: "none",
+  lang: "en",
+  tableWidth: 600,
+  isResponsive: false,
+  mobileBreakpoint: 480,
+  mobileGutterWidth: 15,
+  mobileFontSize: 14,
+  mobileLineHeight: 18,
+  hasDarkMode: false,
+  darkFontColor: "#FFFFFF",
+  darkTableColor: "#121212",
+  darkBulletColor: "#FFFFFF",
+  textWidth: 72,
+  textBullet: "*",
+  uppercaseBoldLines: false,
+};
+
+export const bannerDefaultValues: ISIValues = {
+  brandName: "",
+  jobCode: "",
+  padding: 6,
+  fontSize: 11,
+  fontColor: "#000000",
+  tableColor: "#FFFFFF",
+  lineHeight: 14,
+  fontFamily: "arial",
+  customFontFamily: "",
+  webFontName: "",
+  webFontUrl: "",
+  gutterWidth: 10,
+  ISI: "",
+  tierStyles: { heading: {}, subhead: {}, bullet: {} },
+  boxBorderColor: "#000000",
+  boxBorderWidth: 1,
+  boxPadding: 6,
+  boxBackgroundColor: "",
+  boxHeadingColor: "",
+  boxHeadingAlign: "center",
+  hasBullets: false,
+  bulletColor: "#000000",
+  blockLowContrast: false,
+  linkColor: "#0000EE",
+  underlineLinks: true,
+  openLinksInNewTab: true,
+  entityStyle: "named",
+  preservedCharacters: "",
+  indentStyle: "tabs",
+  indentSize: 2,
+  lineEnding: "lf",
+  adSize: "300x250",
+  isiHeight: 100,
+  scrollSpeed: 10,
+  scrollDelay: 2,
+  pauseOnHover: true,
+};
@@ -0,0 +1,146 @@
+export type DiffLine = {
+  type: "equal" | "added" | "removed";
+  text: string;
+  // 1-based line numbers, missing on the side the line isn't in
+  oldLine?: number;
+  newLine?: number;
+};
+
+export type DiffRow = { left?: DiffLine; right?: DiffLine };
+
+// Past this many cells the LCS table gets too big to build in the browser,
+// so the changed middle is shown as removed and added wholesale
+const maxTableSize = 4_000_000;
+
+/**
+ * Line by line diff of two texts, based on their longest common
+ * subsequence. Lines both texts start or end with are matched up front,
+ * which keeps the table small for the usual few-lines-changed case.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split(/\r?\n|\r/);
+  const newLines = newText.split(/\r?\n|\r/);
+
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  )
+    start++;
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    oldLines[oldEnd - 1] === newLines[newEnd - 1]
+  ) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const lines: DiffLine[] = [];
+  const pushEqual = (oldIndex: number, newIndex: number) =>
+    lines.push({
+      type: "equal",
+      text: oldLines[oldIndex],
+      oldLine: oldIndex + 1,
+      newLine: newIndex + 1,
+    });
+  const pushRemoved = (oldIndex: number) =>
+    lines.push({
+      type: "removed",
+      text: oldLines[oldIndex],
+      oldLine: oldIndex + 1,
+    });
+  const pushAdded = (newIndex: number) =>
+    lines.push({
+      type: "added",
+      text: newLines[newIndex],
+      newLine: newIndex + 1,
+    });
+
+  for (let index = 0; index < start; index++) pushEqual(index, index);
+
+  const oldCount = oldEnd - start;
+  const newCount = newEnd - start;
+  const width = newCount + 1;
+
+  if ((oldCount + 1) * width > maxTableSize) {
+    for (let index = start; index < oldEnd; index++) pushRemoved(index);
+    for (let index = start; index < newEnd; index++) pushAdded(index);
+  } else {
+    // lengths[i * width + j] is the LCS length of the old lines from i and
+    // the new lines from j, both counted from the first changed line
+    const lengths = new Uint32Array((oldCount + 1) * width);
+    for (let i = oldCount - 1; i >= 0; i--) {
+      for (let j = newCount - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          oldLines[start + i] === newLines[start + j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(
+                lengths[(i + 1) * width + j],
+                lengths[i * width + j + 1],
+              );
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < oldCount || j < newCount) {
+      if (
+        i < oldCount &&
+        j < newCount &&
+        oldLines[start + i] === newLines[start + j]
+      ) {
+        pushEqual(start + i++, start + j++);
+      } else if (
+        i < oldCount &&
+        (j === newCount ||
+          lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])
+      ) {
+        // Removals go first, so a changed line reads old then new
+        pushRemoved(start + i++);
+      } else {
+        pushAdded(start + j++);
+      }
+    }
+  }
+
+  for (let index = 0; index < oldLines.length - oldEnd; index++)
+    pushEqual(oldEnd + index, newEnd + index);
+
+  return lines;
+}
+
+/**
+ * Pairs the lines of a diff up for a side-by-side view. Each run of removed
+ * lines sits next to the run of added lines that replaced it.
+ */
+export function toSideBySide(lines: DiffLine[]) {
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flushChanges = () => {
+    for (let index = 0; index < Math.max(removed.length, added.length); index++)
+      rows.push({ left: removed[index], right: added[index] });
+    removed = [];
+    added = [];
+  };
+
+  lines.forEach((line) => {
+    if (line.type === "removed") {
+      removed.push(line);
+    } else if (line.type === "added") {
+      added.push(line);
+    } else {
+      flushChanges();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flushChanges();
+
+  return rows;
+}
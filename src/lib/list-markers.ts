@@ -0,0 +1,90 @@
+type ListLevelStyle = {
+  bullet: string;
+  bulletWidth: number;
+  numbering: (index: number) => string;
+  numberWidth: number;
+};
+
+const toLetters = (index: number): string =>
+  (index > 26 ? toLetters(Math.floor((index - 1) / 26)) : "") +
+  String.fromCharCode(97 + ((index - 1) % 26));
+
+const romanNumerals: [number, string][] = [
+  [1000, "m"],
+  [900, "cm"],
+  [500, "d"],
+  [400, "cd"],
+  [100, "c"],
+  [90, "xc"],
+  [50, "l"],
+  [40, "xl"],
+  [10, "x"],
+  [9, "ix"],
+  [5, "v"],
+  [4, "iv"],
+  [1, "i"],
+];
+
+const toRoman = (index: number) =>
+  romanNumerals.reduce((roman, [value, numeral]) => {
+    while (index >= value) {
+      roman += numeral;
+      index -= value;
+    }
+    return roman;
+  }, "");
+
+// Levels deeper than the last entry reuse its style
+const listLevelStyles: ListLevelStyle[] = [
+  {
+    bullet: "&bull;",
+    bulletWidth: 12,
+    numbering: (index) => `${index}.`,
+    numberWidth: 20,
+  },
+  {
+    bullet: "&ndash;",
+    bulletWidth: 14,
+    numbering: (index) => `${toLetters(index)}.`,
+    numberWidth: 18,
+  },
+  {
+    bullet: "&#9642;",
+    bulletWidth: 12,
+    numbering: (index) => `${toRoman(index)}.`,
+    numberWidth: 22,
+  },
+];
+
+/**
+ * Returns the glyph (as HTML) and the width of the cell that holds it for a
+ * list item at the given nesting level.
+ */
+export function getListMarker(
+  level: number,
+  isOrdered: boolean,
+  index: number,
+) {
+  const style = listLevelStyles[Math.min(level, listLevelStyles.length - 1)];
+
+  return isOrdered
+    ? { glyph: style.numbering(index), width: style.numberWidth }
+    : { glyph: style.bullet, width: style.bulletWidth };
+}
+
+/**
+ * For outputs that indent list items instead of nesting them. The marker of
+ * each item goes where the text of the last item one level up starts, so
+ * the offsets are tracked from one item to the next.
+ */
+export function createListOffsets() {
+  const textOffsets: number[] = [];
+
+  return (level: number, isOrdered: boolean, index: number) => {
+    const { glyph, width } = getListMarker(level, isOrdered, index);
+    const markerOffset = level > 0 ? textOffsets[level - 1] : 0;
+    textOffsets[level] = markerOffset + width;
+
+    return { glyph, width, markerOffset, textOffset: textOffsets[level] };
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Converts Markdown into ISI markup. Most inline syntax carries over as is;
+ * the differences are italics written with "*", bold written with "__"
+ * (underline in ISI markup) and headings below "##", which become subheads
+ * since ISI markup has two heading levels. Anything without an equivalent is
+ * reported back.
+ */
+export function convertMarkdownToMarkup(markdown: string) {
+  const warnings = new Set<string>();
+  let isInCodeBlock = false;
+
+  const lines = markdown.split(/\r?\n|\r/).flatMap((line) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      isInCodeBlock = !isInCodeBlock;
+      warnings.add("Code blocks (kept as plain text)");
+      return [];
+    }
+    if (isInCodeBlock) return [line];
+
+    // Horizontal rules would otherwise turn into "--" bullets
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) return [];
+
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      warnings.add("Tables (kept as plain text)");
+      if (/^\s*\|[\s:|-]+\|\s*$/.test(line)) return [];
+    }
+
+    if (/^\s*>/.test(line)) {
+      warnings.add("Block quotes");
+      line = line.replace(/^\s*(>\s?)+/, "");
+    }
+
+    line = convertInline(line, warnings);
+
+    const heading = line.match(/^\s*(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading)
+      return [`${heading[1].length === 1 ? "#" : "##"} ${heading[2]}`];
+
+    // "*" and "+" bullets become "-", numbered items are already compatible
+    return [line.replace(/^(\s*)[*+]\s+/, "$1- ")];
+  });
+
+  return {
+    markup: lines.filter((line) => line.trim()).join("\n"),
+    warnings: Array.from(warnings),
+  };
+}
+
+function convertInline(line: string, warnings: Set<string>) {
+  if (/!\[[^\]]*\]\([^)]*\)/.test(line)) {
+    warnings.add("Images");
+    line = line.replace(/!\[[^\]]*\]\([^)]*\)/g, "");
+  }
+
+  if (/`[^`]+`/.test(line)) {
+    warnings.add("Inline code (kept as plain text)");
+    line = line.replace(/`([^`]+)`/g, "$1");
+  }
+
+  if (/~~[^~]+~~/.test(line)) {
+    warnings.add("Strikethrough text");
+    line = line.replace(/~~([^~]+)~~/g, "$1");
+  }
+
+  line = line
+    // Markdown "__bold__" is underline in ISI markup
+    .replace(/(^|[^\w\\])__(?=\S)(.+?)__(?!\w)/g, "$1**$2**")
+    .replace(/(^|[^*\\])\*(?=[^\s*])([^*]+?)\*(?!\*)/g, "$1_$2_");
+
+  if (/<\/?[a-z][^>]*>/i.test(line)) {
+    line = line
+      .replace(/<\/?u>/gi, "__")
+      .replace(/<\/?sup>/gi, "^")
+      .replace(/<\/?(b|strong)>/gi, "**")
+      .replace(/<\/?(i|em)>/gi, "_");
+    if (/<\/?[a-z][^>]*>/i.test(line)) warnings.add("Inline HTML tags");
+  }
+
+  return line;
+}
@@ -0,0 +1,42 @@
+export type MarkupLine = {
+  text: string;
+  // Set for list items: "-" for bullets, "1." for numbered items
+  marker?: string;
+  level: number;
+};
+
+export const escapeMarkup = (text: string) =>
+  text.replace(/([\\*_^[\]])/g, "\\$1");
+
+/**
+ * Wraps a formatted run in markers. Empty runs are never wrapped, "****"
+ * would show up as literal asterisks. Whitespace at the edges of a run stays
+ * outside, since "_word _" or "word_ italic_" isn't markup to the parser.
+ */
+export function wrapMarkup(text: string, marker: string, closing = marker) {
+  const [, leading, content, trailing] = text.match(/^(\s*)(.*?)(\s*)$/s)!;
+  return content ? `${leading}${marker}${content}${closing}${trailing}` : text;
+}
+
+/**
+ * Joins lines produced by the importers into ISI markup. A fully bold
+ * paragraph becomes a "**" bold line, like a heading typed by hand.
+ */
+export function writeMarkupLines(lines: MarkupLine[]) {
+  return lines
+    .map(({ text, marker, level }) => {
+      if (marker) return `${"  ".repeat(level)}${marker} ${text}`;
+
+      const boldLine = text.match(/^\*\*(.+)\*\*$/);
+      if (boldLine && !boldLine[1].includes("**")) return `**${boldLine[1]}`;
+
+      // A paragraph that happens to start like a heading, a list item or a
+      // boxed warning stays a paragraph, and its indentation would only
+      // make a list item out of it
+      return text
+        .replace(/^[ \t]+/, "")
+        .replace(/^(#|:::|-)/, "\\$1")
+        .replace(/^(\d+)([.)])/, "$1\\$2");
+    })
+    .join("\n");
+}
@@ -0,0 +1,156 @@
+import {
+  getBoxHeadingStyle,
+  getBoxStyle,
+  splitBoxedSections,
+} from "./boxed-warning";
+import { defaultTableColor } from "./email-generator";
+import { renderInlineHTML } from "./inline-markup";
+import { parseISI, type ISIRow } from "./isi-parser";
+import { createListOffsets } from "./list-markers";
+import { getFallbackFontStack } from "./font-stacks";
+import type { ISIValues } from "./isi-schema";
+import {
+  getLetterSpacingStyle,
+  getRowTier,
+  resolveTierStyle,
+  type ResolvedTierStyle,
+} from "./style-tiers";
+
+export const outputFormats = ["html", "mjml"] as const;
+
+/**
+ * Builds the ISI as an <mj-section> to drop into an MJML template. Plain
+ * rows become <mj-text> and each run of list items becomes one <mj-table>,
+ * since MJML has no list component of its own. Boxed warnings are an
+ * <mj-table> as well.
+ */
+export function generateMJMLISI({
+  padding,
+  fontSize,
+  fontColor,
+  tableColor,
+  lineHeight,
+  fontFamily,
+  customFontFamily,
+  gutterWidth,
+  ISI,
+  bulletColor,
+  linkColor,
+  underlineLinks,
+  openLinksInNewTab,
+  entityStyle,
+  preservedCharacters,
+  tierStyles,
+  boxBorderColor,
+  boxBorderWidth,
+  boxPadding,
+  boxBackgroundColor,
+  boxHeadingColor,
+  boxHeadingFontSize,
+  boxHeadingAlign = "center",
+}: ISIValues) {
+  const inlineOptions = {
+    linkColor,
+    underlineLinks,
+    openLinksInNewTab,
+    entityStyle,
+    preservedCharacters,
+  };
+
+  // Web fonts belong in <mj-head> as <mj-font>, which a section can't add
+  const fontStack = getFallbackFontStack({ fontFamily, customFontFamily });
+
+  const tierOptions = { fontSize, lineHeight, fontColor, padding, tierStyles };
+  const bulletStyle = resolveTierStyle(tierOptions, "bullet");
+  const boxStyle = getBoxStyle({
+    padding,
+    boxBorderColor,
+    boxBorderWidth,
+    boxPadding,
+    boxBackgroundColor,
+  });
+
+  const cellStyle = (
+    style: ResolvedTierStyle,
+    color: string | undefined,
+    isBold: boolean,
+  ) =>
+    `font-family: ${fontStack}; font-size: ${style.fontSize}px; line-height: ${style.lineHeight}px; color: ${color}; padding-bottom: ${style.padding}px; font-weight: ${isBold ? "bold" : "normal"};${getLetterSpacingStyle(style.letterSpacing)}`;
+
+  const getListOffsets = createListOffsets();
+
+  const generateListRow = (
+    { content, level, isOrdered, index }: ISIRow,
+    indent: string,
+  ) => {
+    const { glyph, width, markerOffset } = getListOffsets(
+      level,
+      isOrdered,
+      index,
+    );
+    const text = renderInlineHTML(content, inlineOptions);
+
+    return `${indent}<tr>${indent}\t<td style="padding-left: ${markerOffset}px;">${indent}\t\t<table cellpadding="0" cellspacing="0" border="0" width="100%">${indent}\t\t\t<tr>${indent}\t\t\t\t<td width="${width}" valign="top" align="left" style="${cellStyle(bulletStyle, bulletColor, true)}">${glyph}</td>${indent}\t\t\t\t<td valign="top" align="left" style="${cellStyle(bulletStyle, bulletStyle.fontColor, false)}">${text}</td>${indent}\t\t\t</tr>${indent}\t\t</table>${indent}\t</td>${indent}</tr>`;
+  };
+
+  // Plain rows are <mj-text> everywhere but inside a box, which is raw HTML
+  const getRowStyle = (row: ISIRow) => {
+    const tierStyle = resolveTierStyle(tierOptions, getRowTier(row));
+    return row.box > 0 && row.headingLevel > 0
+      ? getBoxHeadingStyle({ boxHeadingColor, boxHeadingFontSize }, tierStyle)
+      : tierStyle;
+  };
+
+  const generateBoxRow = (row: ISIRow, indent: string) => {
+    if (row.isBullet) return generateListRow(row, indent);
+
+    const style = getRowStyle(row);
+    const align = row.headingLevel > 0 ? boxHeadingAlign : "left";
+    const text = renderInlineHTML(row.content, inlineOptions);
+
+    return `${indent}<tr>${indent}\t<td valign="top" align="${align}" style="${cellStyle(style, style.fontColor, row.isBold || style.isBold)}">${text}</td>${indent}</tr>`;
+  };
+
+  let listRows = "";
+  let generatedRows = "";
+
+  const flushList = () => {
+    if (!listRows) return;
+    generatedRows += `\n\t\t<mj-table padding="0" cellpadding="0" cellspacing="0" width="100%">${listRows}\n\t\t</mj-table>`;
+    listRows = "";
+  };
+
+  splitBoxedSections(parseISI(ISI)).forEach(({ box, rows }) => {
+    if (box > 0) {
+      flushList();
+      const boxRows = rows
+        .map((row) => generateBoxRow(row, "\n\t\t\t\t\t\t"))
+        .join("");
+
+      generatedRows += `\n\t\t<mj-table padding="0 0 ${boxStyle.spacingBelow}px 0" cellpadding="0" cellspacing="0" width="100%">\n\t\t\t<tr>\n\t\t\t\t<td style="${boxStyle.declarations}">\n\t\t\t\t\t<table cellpadding="0" cellspacing="0" border="0" width="100%">${boxRows}\n\t\t\t\t\t</table>\n\t\t\t\t</td>\n\t\t\t</tr>\n\t\t</mj-table>`;
+      return;
+    }
+
+    rows.forEach((row) => {
+      if (row.isBullet) {
+        listRows += generateListRow(row, "\n\t\t\t");
+        return;
+      }
+
+      flushList();
+      const style = getRowStyle(row);
+      const letterSpacing = style.letterSpacing
+        ? ` letter-spacing="${style.letterSpacing}px"`
+        : "";
+      const text = renderInlineHTML(row.content, inlineOptions);
+
+      generatedRows += `\n\t\t<mj-text font-family="${fontStack}" font-size="${style.fontSize}px" line-height="${style.lineHeight}px" color="${style.fontColor}"${letterSpacing} font-weight="${row.isBold || style.isBold ? "bold" : "normal"}" padding="0 0 ${style.padding}px 0">\n\t\t\t${text}\n\t\t</mj-text>`;
+    });
+  });
+  flushList();
+
+  const gutterWidthValue = gutterWidth ? gutterWidth : 30;
+  const tableColorValue = tableColor ? tableColor : defaultTableColor;
+
+  return `<mj-section background-color="${tableColorValue}" padding="0 ${gutterWidthValue}px">\n\t<mj-column>${generatedRows}\n\t</mj-column>\n</mj-section>`;
+}
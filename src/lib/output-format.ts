@@ -0,0 +1,44 @@
+export const indentStyles = ["tabs", "spaces", "minified"] as const;
+
+export const lineEndings = ["lf", "crlf"] as const;
+
+type OutputFormatOptions = {
+  indentStyle?: (typeof indentStyles)[number];
+  indentSize?: number;
+  lineEnding?: (typeof lineEndings)[number];
+};
+
+/**
+ * Reformats generated code, which always comes out tab-indented with LF
+ * line endings. Minifying only drops line breaks and indentation, so the
+ * whitespace inside text is never touched.
+ */
+export function formatOutput(
+  code: string,
+  {
+    indentStyle = "tabs",
+    indentSize = 2,
+    lineEnding = "lf",
+  }: OutputFormatOptions,
+) {
+  let formatted = code;
+
+  if (indentStyle === "spaces") {
+    formatted = formatted.replace(/^\t+/gm, (tabs) =>
+      " ".repeat(tabs.length * indentSize),
+    );
+  }
+
+  // ISI rows never span lines, and the generated CSS and scripts end every
+  // statement with ";" or a brace, so every line break can go
+  if (indentStyle === "minified")
+    formatted = formatted.replace(/\n[\t ]*/g, "");
+
+  return lineEnding === "crlf" ? formatted.replace(/\n/g, "\r\n") : formatted;
+}
+
+export function formatByteSize(text: string) {
+  const bytes = new TextEncoder().encode(text).length;
+
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
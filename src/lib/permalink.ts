@@ -0,0 +1,119 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from "fflate";
+import { z } from "zod";
+import {
+  bannerDefaultValues,
+  emailDefaultValues,
+  ISIValuesSchema,
+  type ISIMode,
+  type ISIValues,
+} from "./isi-schema";
+
+const hashKey = "isi";
+
+// Some email clients, chat apps and older browsers cut URLs off around here
+export const maxPermalinkLength = 2000;
+
+const ISIStateSchema = z.object({
+  mode: z.enum(["email", "banner"]),
+  values: ISIValuesSchema.partial(),
+});
+
+export type ISIState = z.infer<typeof ISIStateSchema>;
+
+const getModeDefaults = (mode: ISIMode) =>
+  mode === "banner" ? bannerDefaultValues : emailDefaultValues;
+
+function toBase64URL(bytes: Uint8Array) {
+  let binary = "";
+  // Chunked, since spreading a long array into one call overflows the stack
+  for (let index = 0; index < bytes.length; index += 0x8000)
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64URL(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Only the values that differ from the defaults of the mode are kept,
+ * which is most of what keeps links short.
+ */
+function toState(mode: ISIMode, values: ISIValues): ISIState {
+  const defaults: Partial<ISIValues> = getModeDefaults(mode);
+  const changedValues = Object.fromEntries(
+    Object.entries(values).filter(
+      ([key, value]) =>
+        JSON.stringify(value) !==
+        JSON.stringify(defaults[key as keyof ISIValues]),
+    ),
+  );
+
+  return { mode, values: changedValues };
+}
+
+export function createPermalink(mode: ISIMode, values: ISIValues) {
+  const json = JSON.stringify(toState(mode, values));
+  const { origin, pathname, search } = window.location;
+
+  return `${origin}${pathname}${search}#${hashKey}=${toBase64URL(deflateSync(strToU8(json)))}`;
+}
+
+const getPermalinkData = (hash: string) =>
+  new URLSearchParams(hash.slice(1)).get(hashKey);
+
+export const hasPermalink = (hash = window.location.hash) =>
+  !!getPermalinkData(hash);
+
+/**
+ * The state in the current URL, merged over the defaults of its mode, or
+ * null when there is none or it can't be read.
+ */
+export function readPermalink(hash = window.location.hash) {
+  const data = getPermalinkData(hash);
+  if (!data) return null;
+
+  try {
+    const result = ISIStateSchema.safeParse(
+      JSON.parse(strFromU8(inflateSync(fromBase64URL(data)))),
+    );
+    if (!result.success) return null;
+
+    const { mode, values } = result.data;
+    return { mode, values: { ...getModeDefaults(mode), ...values } };
+  } catch {
+    return null;
+  }
+}
+
+// Once the form holds the state, a stale hash would only get in the way of
+// the links made from it
+export function clearPermalink() {
+  const { pathname, search } = window.location;
+  window.history.replaceState(null, "", `${pathname}${search}`);
+}
+
+export function serializeState(mode: ISIMode, values: ISIValues) {
+  return JSON.stringify({ mode, values }, null, 2);
+}
+
+export function parseStateFile(json: string) {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file isn't valid JSON");
+  }
+
+  const result = ISIStateSchema.safeParse(data);
+  if (!result.success)
+    throw new Error("The file doesn't contain a valid ISI state");
+
+  const { mode, values } = result.data;
+  return { mode, values: { ...getModeDefaults(mode), ...values } };
+}
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { ISIValuesSchema, type ISIMode, type ISIValues } from "./isi-schema";
+
+const storageKey = "isi-generator-presets";
+
+// Presets hold every setting except the ISI text itself and the job code,
+// which both change from one job to the next
+export const ISISettingsSchema = ISIValuesSchema.omit({
+  ISI: true,
+  jobCode: true,
+});
+
+export type ISISettings = z.infer<typeof ISISettingsSchema>;
+
+const PresetSchema = z.object({
+  name: z.string().trim().min(1, { message: "Preset name is required" }),
+  mode: z.enum(["email", "banner"]),
+  settings: ISISettingsSchema,
+});
+
+export type Preset = z.infer<typeof PresetSchema>;
+
+const DefaultPresetsSchema = z.object({
+  email: z.string().optional(),
+  banner: z.string().optional(),
+});
+
+// Presets are checked one by one when loading, so a preset saved by an
+// older version that no longer passes doesn't take every other one with it
+const StoredPresetsSchema = z.object({
+  presets: z.array(z.unknown()),
+  defaultPresets: DefaultPresetsSchema.catch({}),
+});
+
+export type PresetStore = {
+  presets: Preset[];
+  defaultPresets: z.infer<typeof DefaultPresetsSchema>;
+};
+
+// Exported files hold either a single preset or a whole collection
+const PresetFileSchema = z.union([
+  PresetSchema,
+  z.object({ presets: z.array(PresetSchema) }),
+]);
+
+const emptyStore: PresetStore = { presets: [], defaultPresets: {} };
+
+export function loadPresetStore(): PresetStore {
+  try {
+    const result = StoredPresetsSchema.safeParse(
+      JSON.parse(localStorage.getItem(storageKey) ?? "null"),
+    );
+    if (!result.success) return emptyStore;
+
+    return {
+      presets: result.data.presets.flatMap((preset) => {
+        const presetResult = PresetSchema.safeParse(preset);
+        return presetResult.success ? [presetResult.data] : [];
+      }),
+      defaultPresets: result.data.defaultPresets,
+    };
+  } catch {
+    return emptyStore;
+  }
+}
+
+export function savePresetStore(store: PresetStore) {
+  localStorage.setItem(storageKey, JSON.stringify(store));
+}
+
+export function getDefaultPreset(mode: ISIMode) {
+  const { presets, defaultPresets } = loadPresetStore();
+  return presets.find(
+    (preset) => preset.mode === mode && preset.name === defaultPresets[mode],
+  );
+}
+
+export function toSettings(values: ISIValues): ISISettings {
+  const settings: Partial<ISIValues> = { ...values };
+  delete settings.ISI;
+  delete settings.jobCode;
+  return settings;
+}
+
+export function serializePresets(presets: Preset[]) {
+  return JSON.stringify(
+    presets.length === 1 ? presets[0] : { presets },
+    null,
+    2,
+  );
+}
+
+export function parsePresetFile(json: string): Preset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file isn't valid JSON");
+  }
+
+  const result = PresetFileSchema.safeParse(data);
+  if (!result.success)
+    throw new Error("The file doesn't contain valid ISI presets");
+
+  return "presets" in result.data ? result.data.presets : [result.data];
+}
@@ -0,0 +1,50 @@
+import type { ISIRow } from "./isi-parser";
+import type { ISIValues } from "./isi-schema";
+
+export const styleTiers = ["heading", "subhead", "bullet"] as const;
+
+export type StyleTier = (typeof styleTiers)[number] | "body";
+
+export type TierStyle = {
+  fontSize?: number;
+  lineHeight?: number;
+  fontColor?: string;
+  letterSpacing?: number;
+  padding?: number;
+};
+
+export const getRowTier = ({ isBullet, headingLevel }: ISIRow): StyleTier => {
+  if (isBullet) return "bullet";
+  if (headingLevel === 1) return "heading";
+  if (headingLevel === 2) return "subhead";
+  return "body";
+};
+
+/**
+ * The style of a tier, where every property left empty falls back to the
+ * body settings. Headings and subheads are always bold.
+ */
+export function resolveTierStyle(
+  values: Pick<
+    ISIValues,
+    "fontSize" | "lineHeight" | "fontColor" | "padding" | "tierStyles"
+  >,
+  tier: StyleTier,
+) {
+  const style: TierStyle =
+    tier === "body" ? {} : (values.tierStyles?.[tier] ?? {});
+
+  return {
+    fontSize: style.fontSize ?? values.fontSize,
+    lineHeight: style.lineHeight ?? values.lineHeight,
+    fontColor: style.fontColor || values.fontColor,
+    letterSpacing: style.letterSpacing,
+    padding: style.padding ?? values.padding,
+    isBold: tier === "heading" || tier === "subhead",
+  };
+}
+
+export type ResolvedTierStyle = ReturnType<typeof resolveTierStyle>;
+
+export const getLetterSpacingStyle = (letterSpacing?: number) =>
+  letterSpacing ? ` letter-spacing: ${letterSpacing}px;` : "";
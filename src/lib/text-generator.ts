@@ -0,0 +1,83 @@
+import { splitBoxedSections } from "./boxed-warning";
+import { decodeHTMLEntities } from "./html-entities";
+import { renderInlineText } from "./inline-markup";
+import { isBoldRow, parseISI, type ISIRow } from "./isi-parser";
+import { getListMarker } from "./list-markers";
+import type { ISIValues } from "./isi-schema";
+
+export const textBullets = ["*", "-"] as const;
+
+/**
+ * Breaks text into lines of at most `width` characters. Words longer than
+ * that (usually URLs) get a line of their own instead of being cut.
+ */
+function wrapText(text: string, width: number) {
+  const lines: string[] = [];
+  let line = "";
+
+  text
+    .split(/[ \t]+/)
+    .filter(Boolean)
+    .forEach((word) => {
+      if (line && line.length + 1 + word.length > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    });
+
+  if (line) lines.push(line);
+  return lines;
+}
+
+export function generatePlainTextISI({
+  ISI,
+  textWidth,
+  textBullet = "*",
+  uppercaseBoldLines,
+}: ISIValues) {
+  const width = textWidth ? textWidth : 72;
+
+  const renderRows = (rows: ISIRow[]) =>
+    rows
+      .map((row) => {
+        const { content, isBullet, level, isOrdered, index } = row;
+        let text = decodeHTMLEntities(renderInlineText(content)).trim();
+        if (uppercaseBoldLines && isBoldRow(row)) text = text.toUpperCase();
+
+        if (!isBullet) return wrapText(text, width).join("\n");
+
+        const marker = isOrdered
+          ? getListMarker(level, isOrdered, index).glyph
+          : textBullet;
+        const indent = "  ".repeat(level);
+        // Continuation lines hang under the text, not under the marker
+        const hangingIndent = " ".repeat(indent.length + marker.length + 1);
+
+        return wrapText(text, Math.max(width - hangingIndent.length, 1))
+          .map((line, lineIndex) =>
+            lineIndex === 0
+              ? `${indent}${marker} ${line}`
+              : `${hangingIndent}${line}`,
+          )
+          .join("\n");
+      })
+      .reduce(
+        // Paragraphs are separated by a blank line, list items aren't
+        (text, row, rowIndex) =>
+          rowIndex === 0
+            ? row
+            : `${text}${rows[rowIndex].isBullet && rows[rowIndex - 1].isBullet ? "\n" : "\n\n"}${row}`,
+        "",
+      );
+
+  // Boxed warnings are set off by a rule above and below
+  const rule = "=".repeat(width);
+
+  return splitBoxedSections(parseISI(ISI))
+    .map(({ box, rows }) =>
+      box > 0 ? `${rule}\n${renderRows(rows)}\n${rule}` : renderRows(rows),
+    )
+    .join("\n\n");
+}
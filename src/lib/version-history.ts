@@ -0,0 +1,85 @@
+import type { ISIMode, ISIValues } from "./isi-schema";
+
+const databaseName = "isi-generator";
+const storeName = "versions";
+
+export type ISIVersion = {
+  id: number;
+  mode: ISIMode;
+  label: string;
+  values: ISIValues;
+  // The generated code exactly as it was shown, HTML or MJML
+  output: string;
+  createdAt: number;
+};
+
+function openDatabase() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(databaseName, 1);
+
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(storeName, {
+        keyPath: "id",
+        autoIncrement: true,
+      });
+      store.createIndex("mode", "mode");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Runs one request in its own transaction and closes the connection after
+function runRequest<T>(
+  mode: IDBTransactionMode,
+  getRequest: (store: IDBObjectStore) => IDBRequest<T>,
+) {
+  return openDatabase().then(
+    (database) =>
+      new Promise<T>((resolve, reject) => {
+        const transaction = database.transaction(storeName, mode);
+        const request = getRequest(transaction.objectStore(storeName));
+
+        transaction.oncomplete = () => {
+          database.close();
+          resolve(request.result);
+        };
+        transaction.onerror = () => {
+          database.close();
+          reject(transaction.error);
+        };
+      }),
+  );
+}
+
+export function addVersion(version: Omit<ISIVersion, "id">) {
+  return runRequest("readwrite", (store) => store.add(version)).then(
+    (id): ISIVersion => ({ ...version, id: Number(id) }),
+  );
+}
+
+/**
+ * Every version saved for a mode, newest first.
+ */
+export function listVersions(mode: ISIMode) {
+  return runRequest(
+    "readonly",
+    (store) => store.index("mode").getAll(mode) as IDBRequest<ISIVersion[]>,
+  ).then((versions) => versions.sort((a, b) => b.createdAt - a.createdAt));
+}
+
+export function labelVersion(version: ISIVersion, label: string) {
+  return runRequest("readwrite", (store) =>
+    store.put({ ...version, label: label.trim() }),
+  );
+}
+
+export function deleteVersion(id: number) {
+  return runRequest("readwrite", (store) => store.delete(id));
+}
+
+export const formatVersionDate = (createdAt: number) =>
+  new Date(createdAt).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });